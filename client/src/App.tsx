@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/Home";
 import SavedCalculations from "@/pages/SavedCalculations";
+import Compare from "@/pages/Compare";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -12,6 +13,7 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/saved" component={SavedCalculations} />
+      <Route path="/compare" component={Compare} />
       <Route component={NotFound} />
     </Switch>
   );
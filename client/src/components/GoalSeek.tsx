@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { addMonths, addYears, format, parse, startOfMonth } from "date-fns";
+import { Target } from "lucide-react";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { goalSeek, type GoalSeekResult, type GoalTarget, type GoalVariable } from "@/lib/goal-seek";
+import { formatCurrency } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+
+interface GoalSeekProps {
+  inputs: LoanInputData;
+}
+
+const VARIABLE_LABELS: Record<GoalVariable, string> = {
+  emi: "Monthly EMI",
+  "lump-sum": "One-time prepayment",
+  recurring: "Monthly prepayment",
+};
+
+const TARGET_LABELS: Record<GoalTarget["type"], string> = {
+  "closure-date": "Close by",
+  tenure: "Close within (months)",
+  "total-interest": "Total interest at most (₹)",
+  "interest-saved": "Save interest of (₹)",
+};
+
+const toDate = (value: string) => parse(value, "yyyy-MM-dd", new Date());
+
+export function GoalSeek({ inputs }: GoalSeekProps) {
+  const [variable, setVariable] = useState<GoalVariable>("emi");
+  const [paymentDate, setPaymentDate] = useState(format(startOfMonth(addMonths(new Date(), 1)), "yyyy-MM-dd"));
+  const [targetType, setTargetType] = useState<GoalTarget["type"]>("closure-date");
+  const [targetDate, setTargetDate] = useState(format(startOfMonth(addYears(new Date(), 10)), "yyyy-MM-dd"));
+  const [targetValue, setTargetValue] = useState("");
+  const [solution, setSolution] = useState<GoalSeekResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A solution only holds for the inputs it was solved against.
+  useEffect(() => setSolution(null), [inputs]);
+
+  const solve = () => {
+    setError(null);
+    let target: GoalTarget;
+    if (targetType === "closure-date") {
+      const date = toDate(targetDate);
+      if (isNaN(date.getTime())) return setError("Pick a valid target date");
+      target = { type: "closure-date", date };
+    } else {
+      const value = parseFloat(targetValue);
+      if (!(value > 0)) return setError("Enter a target above zero");
+      target = targetType === "tenure" ? { type: "tenure", months: value } : { type: targetType, amount: value };
+    }
+    const date = toDate(paymentDate);
+    if (variable !== "emi" && isNaN(date.getTime())) return setError("Pick a valid prepayment date");
+    setSolution(goalSeek(inputs, { variable, paymentDate: date, target }));
+  };
+
+  const summary = solution?.result.summary;
+  const interestSaved = solution ? solution.baseline.summary.totalInterest - solution.result.summary.totalInterest : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 px-4">
+        <CardTitle>Goal Seek</CardTitle>
+        <CardDescription>Find the smallest EMI or prepayment that closes the loan by a date or saves a given amount of interest</CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Solve for</Label>
+            <Select value={variable} onValueChange={(v) => setVariable(v as GoalVariable)}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VARIABLE_LABELS) as GoalVariable[]).map(key => (
+                  <SelectItem key={key} value={key}>{VARIABLE_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {variable !== "emi" && (
+            <div className="space-y-1">
+              <Label htmlFor="goalPaymentDate" className="text-xs text-muted-foreground">{variable === "lump-sum" ? "Paid on" : "Starting"}</Label>
+              <Input id="goalPaymentDate" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className="h-9" />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Target</Label>
+            <Select value={targetType} onValueChange={(v) => setTargetType(v as GoalTarget["type"])}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TARGET_LABELS) as GoalTarget["type"][]).map(key => (
+                  <SelectItem key={key} value={key}>{TARGET_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="goalTarget" className="text-xs text-muted-foreground">{TARGET_LABELS[targetType]}</Label>
+            {targetType === "closure-date" ? (
+              <Input id="goalTarget" type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} className="h-9" />
+            ) : (
+              <Input id="goalTarget" type="number" value={targetValue} onChange={(e) => setTargetValue(e.target.value)} className="h-9" />
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button onClick={solve} className="h-9">
+            <Target className="w-4 h-4 mr-2" /> Solve
+          </Button>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        {solution && summary && (
+          <div className="space-y-4">
+            {solution.feasible ? (
+              <div className="rounded-md border border-primary/40 bg-primary/5 p-3 text-sm">
+                {solution.value === 0 ? (
+                  <p>The plan already meets this target without any change.</p>
+                ) : (
+                  <p>
+                    {VARIABLE_LABELS[variable]} of <strong>{formatCurrency(solution.value)}</strong>
+                    {variable === "lump-sum" && ` on ${format(toDate(paymentDate), "dd MMM yyyy")}`}
+                    {variable === "recurring" && ` from ${format(toDate(paymentDate), "MMM yyyy")}`}
+                    {" "}meets the target.
+                  </p>
+                )}
+                <p className="text-muted-foreground mt-1">
+                  Closes {format(summary.closureDate, "MMM yyyy")} · total interest {formatCurrency(summary.totalInterest)}
+                  {interestSaved > 0 && ` · saves ${formatCurrency(interestSaved)}`}
+                </p>
+              </div>
+            ) : (
+              <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                Even {formatCurrency(solution.value)} does not meet this target. Try a later date or a smaller goal.
+              </p>
+            )}
+
+            {solution.feasible && (
+              <div className="rounded-md border max-h-[320px] overflow-auto">
+                <Table>
+                  <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">Paid EMI (₹)</TableHead>
+                      <TableHead className="text-right">Interest (₹)</TableHead>
+                      <TableHead className="text-right">Extra (₹)</TableHead>
+                      <TableHead className="text-right">Closing (₹)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {solution.result.schedule.map(row => (
+                      <TableRow key={row.month}>
+                        <TableCell>{format(row.date, "MMM yyyy")}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.emi)}</TableCell>
+                        <TableCell className="text-right text-destructive/80">{formatCurrency(row.interest)}</TableCell>
+                        <TableCell className="text-right text-primary">{formatCurrency(row.extraPaid)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(row.closingPrincipal)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
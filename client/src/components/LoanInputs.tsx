@@ -1,7 +1,11 @@
 import { useState, useEffect } from "react";
 import { format, parse } from "date-fns";
-import { CalendarIcon, Plus, Trash2, RotateCcw } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { CalendarIcon, Plus, Trash2, RotateCcw, Save, Loader2, FileUp, AlertCircle, AlertTriangle } from "lucide-react";
+import { cn, newId } from "@/lib/utils";
+import { describeField, validateInputs } from "@/lib/plans";
+import type { PlanValidation, ValidationIssue } from "@shared/validation";
+import { CalculationValidationError } from "@/hooks/use-calculations";
+import { StatementImport, type ImportedEntries } from "@/components/StatementImport";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,6 +13,19 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { DayCountConvention, EmiStepUp, PrepaymentStrategy, RepaymentMode, ShortfallPolicy } from "@shared/calculator";
+import { DAY_COUNT_LABELS, DEFAULT_DAY_COUNT } from "@shared/day-count";
+import { BENCHMARK_LABELS, RESET_FREQUENCIES, type Benchmark } from "@shared/floating-rate";
+import { FREQUENCY_LABELS, type PaymentFrequency } from "@shared/recurring-payments";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 interface DisbursalInput {
   id: string;
@@ -22,10 +39,34 @@ interface RateChangeInput {
   rate: number;
 }
 
+interface BenchmarkRateInput {
+  id: string;
+  date: Date;
+  rate: number;
+}
+
+interface FloatingRateInput {
+  benchmark: Benchmark;
+  spread: number;
+  resetMonths: number;
+  benchmarkRates: BenchmarkRateInput[];
+}
+
 interface ExtraPaymentInput {
   id: string;
   date: Date;
   amount: number;
+  strategy?: PrepaymentStrategy;
+}
+
+interface RecurringPaymentInput {
+  id: string;
+  frequency: PaymentFrequency;
+  startDate: Date;
+  endDate: Date | null;
+  amount: number;
+  stepUpPercent: number;
+  strategy?: PrepaymentStrategy;
 }
 
 export interface LoanInputData {
@@ -36,14 +77,28 @@ export interface LoanInputData {
   disbursals: DisbursalInput[];
   rateChanges: RateChangeInput[];
   extraPayments: ExtraPaymentInput[];
+  recurringPayments: RecurringPaymentInput[];
   fullEmiAtStart: number;
+  emiStepUp: EmiStepUp | null;
+  repaymentMode: RepaymentMode;
+  emiStartDate: Date | null;
+  prepaymentStrategy: PrepaymentStrategy;
+  dayCount: DayCountConvention;
+  shortfallPolicy: ShortfallPolicy;
+  floatingRate: FloatingRateInput | null;
 }
 
 interface LoanInputsProps {
-  onCalculate: (data: LoanInputData) => void;
-  onSave?: (name: string) => void;
+  onCalculate: (data: LoanInputData | null) => void; // null while the inputs have errors
+  onSave?: (name: string, asNew?: boolean) => Promise<void> | void;
+  initialData?: LoanInputData;
+  planName?: string;
 }
 
+// Item-level issues ("disbursals.2.date") need the item named; top-level messages already say what they are about
+const issueText = (issue: ValidationIssue) =>
+  issue.field.includes(".") ? `${describeField(issue.field)}: ${issue.message}` : issue.message;
+
 const DateInput = ({ date, onChange, label }: { date: Date, onChange: (date: Date) => void, label?: string }) => {
   const [inputValue, setInputValue] = useState(format(date, "yyyy-MM-dd"));
 
@@ -89,12 +144,16 @@ const DateInput = ({ date, onChange, label }: { date: Date, onChange: (date: Dat
   );
 };
 
-export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
+export function LoanInputs({ onCalculate, onSave, initialData, planName }: LoanInputsProps) {
   const [totalLoan, setTotalLoan] = useState<string>("3760000");
   const [tenure, setTenure] = useState<string>("15");
   const [rate, setRate] = useState<string>("8.65");
   const [fullEmiAtStart, setFullEmiAtStart] = useState<string>("37400");
   const [startDate, setStartDate] = useState<Date>(new Date(2023, 4, 31));
+  const [repaymentMode, setRepaymentMode] = useState<RepaymentMode>("emi");
+  const [emiStartDate, setEmiStartDate] = useState<Date>(new Date(2025, 5, 1));
+  const [dayCount, setDayCount] = useState<DayCountConvention>(DEFAULT_DAY_COUNT);
+  const [shortfallPolicy, setShortfallPolicy] = useState<ShortfallPolicy>("capitalize");
   
   const [disbursals, setDisbursals] = useState<DisbursalInput[]>([
     { id: '1', date: new Date(2023, 4, 31), amount: 666600 },
@@ -110,13 +169,64 @@ export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
     { id: 'r2', date: new Date(2025, 3, 15), rate: 8.15 },
     { id: 'r3', date: new Date(2025, 5, 15), rate: 7.65 },
   ]);
+  // Recent RBI repo rate moves, so the floating option starts from something realistic
+  const sampleFloatingRate = (): FloatingRateInput => ({
+    benchmark: "repo",
+    spread: 2.15,
+    resetMonths: 3,
+    benchmarkRates: [
+      { id: 'b1', date: new Date(2023, 1, 8), rate: 6.5 },
+      { id: 'b2', date: new Date(2025, 1, 7), rate: 6.25 },
+      { id: 'b3', date: new Date(2025, 3, 9), rate: 6 },
+      { id: 'b4', date: new Date(2025, 5, 6), rate: 5.5 },
+    ],
+  });
+  const [isFloating, setIsFloating] = useState(false);
+  const [floatingRate, setFloatingRate] = useState<FloatingRateInput>(sampleFloatingRate);
   const [extraPayments, setExtraPayments] = useState<ExtraPaymentInput[]>([]);
+  const [recurringPayments, setRecurringPayments] = useState<RecurringPaymentInput[]>([]);
+  // April is when most salaried increments land
+  const [hasStepUp, setHasStepUp] = useState(false);
+  const [emiStepUp, setEmiStepUp] = useState<EmiStepUp>({ type: "percent", value: 5, month: 4, cap: null });
+  const [prepaymentStrategy, setPrepaymentStrategy] = useState<PrepaymentStrategy>("reduce-emi");
 
   const [calculationName, setCalculationName] = useState("");
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<{ message: string; field?: string } | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [validation, setValidation] = useState<PlanValidation>({ errors: [], warnings: [] });
+
+  // Hydrate the form when a saved plan is loaded; the effect below recalculates.
+  useEffect(() => {
+    if (!initialData) return;
+    setTotalLoan(String(initialData.totalLoan));
+    setTenure(String(initialData.tenureYears));
+    setRate(String(initialData.interestRate));
+    setFullEmiAtStart(String(initialData.fullEmiAtStart));
+    setHasStepUp(!!initialData.emiStepUp);
+    if (initialData.emiStepUp) setEmiStepUp(initialData.emiStepUp);
+    setStartDate(initialData.startDate);
+    setRepaymentMode(initialData.repaymentMode);
+    if (initialData.emiStartDate) setEmiStartDate(initialData.emiStartDate);
+    setDayCount(initialData.dayCount);
+    setShortfallPolicy(initialData.shortfallPolicy);
+    setIsFloating(!!initialData.floatingRate);
+    if (initialData.floatingRate) setFloatingRate(initialData.floatingRate);
+    setDisbursals(initialData.disbursals);
+    setRateChanges(initialData.rateChanges);
+    setExtraPayments(initialData.extraPayments);
+    setRecurringPayments(initialData.recurringPayments);
+    setPrepaymentStrategy(initialData.prepaymentStrategy);
+  }, [initialData]);
+
+  useEffect(() => {
+    if (planName) setCalculationName(planName);
+  }, [planName]);
 
   useEffect(() => {
     handleCalculate();
-  }, [totalLoan, tenure, rate, fullEmiAtStart, startDate, disbursals, rateChanges, extraPayments]);
+  }, [totalLoan, tenure, rate, fullEmiAtStart, hasStepUp, emiStepUp, startDate, repaymentMode, emiStartDate, dayCount, shortfallPolicy, prepaymentStrategy, disbursals, rateChanges, isFloating, floatingRate, extraPayments, recurringPayments]);
 
   const handleCalculate = () => {
     const loanAmount = parseFloat(totalLoan);
@@ -124,9 +234,8 @@ export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
     const interestRate = parseFloat(rate);
     const targetEmi = parseFloat(fullEmiAtStart) || 0;
 
-    if (!loanAmount || !tenureYears || !interestRate || disbursals.length === 0) return;
-
-    onCalculate({
+    // Blank or zero fields go through validation too, so a 0% rate is allowed and missing values are reported
+    const data: LoanInputData = {
       totalLoan: loanAmount,
       tenureYears,
       interestRate,
@@ -134,22 +243,94 @@ export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
       disbursals,
       rateChanges,
       extraPayments,
-      fullEmiAtStart: targetEmi
-    });
+      recurringPayments,
+      fullEmiAtStart: targetEmi,
+      emiStepUp: hasStepUp ? emiStepUp : null,
+      repaymentMode,
+      emiStartDate: repaymentMode === "pre-emi" ? emiStartDate : null,
+      prepaymentStrategy,
+      dayCount,
+      shortfallPolicy,
+      floatingRate: isFloating ? floatingRate : null
+    };
+    const result = validateInputs(data);
+    setValidation(result);
+    // Errors such as a 150-year tenure would otherwise run the schedule out to its month cap, and the
+    // previous result must not be saved in place of what the form now shows
+    onCalculate(result.errors.length === 0 ? data : null);
+  };
+
+  const handleSave = async (asNew = false) => {
+    if (!onSave) return;
+    setSaveError(null);
+    setIsSaving(true);
+    try {
+      await onSave(calculationName.trim(), asNew);
+      setIsSaveOpen(false);
+    } catch (err) {
+      if (err instanceof CalculationValidationError) {
+        setSaveError({ message: err.message, field: err.field });
+      } else {
+        setSaveError({ message: err instanceof Error ? err.message : "Failed to save calculation" });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = ({ disbursals: imported, rateChanges: importedRates, extraPayments: importedExtras }: ImportedEntries) => {
+    if (imported.length > 0) {
+      const sorted = [...imported].sort((a, b) => a.date.getTime() - b.date.getTime());
+      setDisbursals(sorted.map(d => ({ id: newId(), ...d })));
+      setStartDate(sorted[0].date);
+    }
+    if (importedRates.length > 0) setRateChanges(importedRates.map(r => ({ id: newId(), ...r })));
+    if (importedExtras.length > 0) setExtraPayments(importedExtras.map(p => ({ id: newId(), ...p })));
   };
 
   const addDisbursal = () => {
     const lastDisbursal = disbursals[disbursals.length - 1];
     const newDate = lastDisbursal ? new Date(lastDisbursal.date.getFullYear(), lastDisbursal.date.getMonth() + 3, 1) : new Date();
-    setDisbursals([...disbursals, { id: Math.random().toString(36).substr(2, 9), date: newDate, amount: 500000 }]);
+    setDisbursals([...disbursals, { id: newId(), date: newDate, amount: 500000 }]);
   };
 
   const addRateChange = () => {
-    setRateChanges([...rateChanges, { id: Math.random().toString(36).substr(2, 9), date: new Date(), rate: parseFloat(rate) }]);
+    setRateChanges([...rateChanges, { id: newId(), date: new Date(), rate: parseFloat(rate) }]);
+  };
+
+  const addBenchmarkRate = () => {
+    const last = floatingRate.benchmarkRates[floatingRate.benchmarkRates.length - 1];
+    setFloatingRate({
+      ...floatingRate,
+      benchmarkRates: [...floatingRate.benchmarkRates, { id: newId(), date: new Date(), rate: last ? last.rate : 6.5 }],
+    });
+  };
+
+  const updateBenchmarkRate = (id: string, change: Partial<BenchmarkRateInput>) => {
+    setFloatingRate({
+      ...floatingRate,
+      benchmarkRates: floatingRate.benchmarkRates.map(r => r.id === id ? { ...r, ...change } : r),
+    });
   };
 
   const addExtraPayment = () => {
-    setExtraPayments([...extraPayments, { id: Math.random().toString(36).substr(2, 9), date: new Date(), amount: 100000 }]);
+    setExtraPayments([...extraPayments, { id: newId(), date: new Date(), amount: 100000 }]);
+  };
+
+  const addRecurringPayment = () => {
+    const now = new Date();
+    setRecurringPayments([...recurringPayments, {
+      id: newId(),
+      frequency: "quarterly",
+      startDate: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+      endDate: null,
+      amount: 25000,
+      stepUpPercent: 0,
+    }]);
+  };
+
+  const updateRecurringPayment = (id: string, change: Partial<RecurringPaymentInput>) => {
+    setRecurringPayments(recurringPayments.map(p => p.id === id ? { ...p, ...change } : p));
   };
 
   return (
@@ -160,35 +341,124 @@ export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
             <CardTitle className="text-xl font-bold text-primary">Loan Details</CardTitle>
             <CardDescription>Configure your construction linked plan</CardDescription>
           </div>
-          <Button variant="ghost" size="sm" onClick={() => {
-            setTotalLoan("3760000");
-            setTenure("15");
-            setRate("8.65");
-            setFullEmiAtStart("37400");
-            const baseDate = new Date(2023, 4, 31);
-            setStartDate(baseDate);
-            setDisbursals([
-              { id: '1', date: baseDate, amount: 666600 },
-              { id: '2', date: new Date(2023, 8, 18), amount: 444400 },
-              { id: '3', date: new Date(2024, 0, 16), amount: 444400 },
-              { id: '4', date: new Date(2024, 2, 30), amount: 444400 },
-              { id: '5', date: new Date(2024, 8, 3), amount: 222000 },
-              { id: '6', date: new Date(2025, 2, 26), amount: 444600 },
-            ]);
-            setRateChanges([
-              { id: 'r1', date: new Date(2025, 1, 15), rate: 8.4 },
-              { id: 'r2', date: new Date(2025, 3, 15), rate: 8.15 },
-              { id: 'r3', date: new Date(2025, 5, 15), rate: 7.65 },
-            ]);
-            setExtraPayments([]);
-          }} className="text-primary h-8 px-2">
-            <RotateCcw className="w-4 h-4 mr-1" />
-            Sample
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setIsImportOpen(true)} className="text-primary h-8 px-2">
+              <FileUp className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            {onSave && (
+              <Button variant="ghost" size="sm" onClick={() => { setSaveError(null); setIsSaveOpen(true); }} className="text-primary h-8 px-2">
+                <Save className="w-4 h-4 mr-1" />
+                Save plan
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => {
+              setTotalLoan("3760000");
+              setTenure("15");
+              setRate("8.65");
+              setFullEmiAtStart("37400");
+              setHasStepUp(false);
+              const baseDate = new Date(2023, 4, 31);
+              setStartDate(baseDate);
+              setRepaymentMode("emi");
+              setEmiStartDate(new Date(2025, 5, 1));
+              setDayCount(DEFAULT_DAY_COUNT);
+              setShortfallPolicy("capitalize");
+              setIsFloating(false);
+              setFloatingRate(sampleFloatingRate());
+              setDisbursals([
+                { id: '1', date: baseDate, amount: 666600 },
+                { id: '2', date: new Date(2023, 8, 18), amount: 444400 },
+                { id: '3', date: new Date(2024, 0, 16), amount: 444400 },
+                { id: '4', date: new Date(2024, 2, 30), amount: 444400 },
+                { id: '5', date: new Date(2024, 8, 3), amount: 222000 },
+                { id: '6', date: new Date(2025, 2, 26), amount: 444600 },
+              ]);
+              setRateChanges([
+                { id: 'r1', date: new Date(2025, 1, 15), rate: 8.4 },
+                { id: 'r2', date: new Date(2025, 3, 15), rate: 8.15 },
+                { id: 'r3', date: new Date(2025, 5, 15), rate: 7.65 },
+              ]);
+              setExtraPayments([]);
+              setRecurringPayments([]);
+              setPrepaymentStrategy("reduce-emi");
+            }} className="text-primary h-8 px-2">
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Sample
+            </Button>
+          </div>
         </div>
       </CardHeader>
+
+      <StatementImport open={isImportOpen} onOpenChange={setIsImportOpen} onImport={handleImport} />
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{planName ? "Update plan" : "Save plan"}</DialogTitle>
+            <DialogDescription>
+              {planName
+                ? "Overwrite the loaded plan with these inputs, or keep it and save a copy."
+                : "Store these inputs so you can reopen them from Saved Plans."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="planName">Plan name</Label>
+              <Input
+                id="planName"
+                value={calculationName}
+                onChange={(e) => setCalculationName(e.target.value)}
+                placeholder="e.g. Tower B - full EMI"
+                aria-invalid={saveError?.field === "name"}
+                autoFocus
+              />
+              {saveError?.field === "name" && (
+                <p className="text-xs text-destructive">{saveError.message}</p>
+              )}
+            </div>
+            {saveError && saveError.field !== "name" && (
+              <p className="text-sm text-destructive">
+                {saveError.field ? `${describeField(saveError.field)}: ` : ""}{saveError.message}
+              </p>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>Cancel</Button>
+              {planName && (
+                <Button type="button" variant="secondary" disabled={isSaving || validation.errors.length > 0} onClick={() => handleSave(true)}>
+                  Save as new
+                </Button>
+              )}
+              <Button type="submit" disabled={isSaving || validation.errors.length > 0}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {planName ? "Update" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
       
       <CardContent className="space-y-4 pt-4 px-4">
+        {(validation.errors.length > 0 || validation.warnings.length > 0) && (
+          <div className="space-y-1 rounded-md border p-3 text-xs">
+            {validation.errors.map(issue => (
+              <div key={`${issue.field}-${issue.message}`} className="flex items-start gap-1 text-destructive">
+                <AlertCircle className="w-3.5 h-3.5 mt-px shrink-0" /> {issueText(issue)}
+              </div>
+            ))}
+            {validation.warnings.map(issue => (
+              <div key={`${issue.field}-${issue.message}`} className="flex items-start gap-1 text-muted-foreground">
+                <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" /> {issueText(issue)}
+              </div>
+            ))}
+          </div>
+        )}
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-1">
             <Label htmlFor="totalLoan">Approved Loan (₹)</Label>
@@ -210,29 +480,173 @@ export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
             <Label>Start Date</Label>
             <DateInput date={startDate} onChange={setStartDate} />
           </div>
+          <div className="space-y-1">
+            <Label>Repayment</Label>
+            <Select value={repaymentMode} onValueChange={(v) => setRepaymentMode(v as RepaymentMode)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="emi">EMI from first disbursal</SelectItem>
+                <SelectItem value="pre-emi">Pre-EMI until possession</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {repaymentMode === "pre-emi" && (
+            <div className="space-y-1 col-span-2">
+              <Label>EMI Start / Possession Date</Label>
+              <DateInput date={emiStartDate} onChange={setEmiStartDate} />
+              <p className="text-xs text-muted-foreground">Only interest is due before this date; full EMI then runs over the remaining tenure.</p>
+            </div>
+          )}
+          <div className="space-y-1 col-span-2">
+            <Label>Annual EMI Step-up</Label>
+            <Select
+              value={hasStepUp ? emiStepUp.type : "none"}
+              onValueChange={(v) => {
+                setHasStepUp(v !== "none");
+                if (v !== "none") setEmiStepUp({ ...emiStepUp, type: v as EmiStepUp["type"] });
+              }}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No step-up</SelectItem>
+                <SelectItem value="percent">Raise by a percentage</SelectItem>
+                <SelectItem value="amount">Raise by a fixed amount</SelectItem>
+              </SelectContent>
+            </Select>
+            {hasStepUp && (
+              <>
+                <div className="grid grid-cols-3 gap-2 pt-1">
+                  <div className="space-y-1">
+                    <Label htmlFor="stepUpValue" className="text-xs text-muted-foreground">{emiStepUp.type === "percent" ? "Raise (%)" : "Raise (₹)"}</Label>
+                    <Input id="stepUpValue" type="number" step={emiStepUp.type === "percent" ? "0.5" : "500"} value={emiStepUp.value} onChange={(e) => setEmiStepUp({ ...emiStepUp, value: parseFloat(e.target.value) || 0 })} className="h-9" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Each year in</Label>
+                    <Select value={String(emiStepUp.month)} onValueChange={(v) => setEmiStepUp({ ...emiStepUp, month: Number(v) })}>
+                      <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 12 }, (_, i) => (
+                          <SelectItem key={i} value={String(i + 1)}>{format(new Date(2000, i, 1), "MMMM")}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="stepUpCap" className="text-xs text-muted-foreground">Cap (₹)</Label>
+                    <Input id="stepUpCap" type="number" value={emiStepUp.cap ?? ""} onChange={(e) => setEmiStepUp({ ...emiStepUp, cap: parseFloat(e.target.value) || null })} placeholder="No cap" className="h-9" />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">Each year's EMI is the higher of the raised amount and the EMI the balance needs.</p>
+              </>
+            )}
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label>Day Count</Label>
+            <Select value={dayCount} onValueChange={(v) => setDayCount(v as DayCountConvention)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DAY_COUNT_LABELS) as DayCountConvention[]).map(convention => (
+                  <SelectItem key={convention} value={convention}>{DAY_COUNT_LABELS[convention]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Match your bank's statement. Most Indian lenders charge Actual/365 on the daily balance.</p>
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label>If EMI Falls Short of Interest</Label>
+            <Select value={shortfallPolicy} onValueChange={(v) => setShortfallPolicy(v as ShortfallPolicy)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="capitalize">Add unpaid interest to principal</SelectItem>
+                <SelectItem value="flag">Only flag the month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         <Separator />
 
-        <div className="space-y-2">
-          <div className="flex justify-between items-center">
-            <Label className="font-semibold text-sm">Interest Rate Changes</Label>
-            <Button variant="outline" size="sm" onClick={addRateChange} className="h-7 px-2 border-dashed border-primary/40 text-primary text-xs">
-              <Plus className="w-3 h-3 mr-1" /> Rate Change
-            </Button>
+        <div className="flex items-center justify-between gap-2">
+          <Label className="font-semibold text-sm">Interest Rate</Label>
+          <Select value={isFloating ? "floating" : "fixed"} onValueChange={(v) => setIsFloating(v === "floating")}>
+            <SelectTrigger className="h-8 w-[210px] text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fixed">Enter rate changes by hand</SelectItem>
+              <SelectItem value="floating">Benchmark + spread</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isFloating ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Benchmark</Label>
+                <Select value={floatingRate.benchmark} onValueChange={(v) => setFloatingRate({ ...floatingRate, benchmark: v as Benchmark })}>
+                  <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BENCHMARK_LABELS) as Benchmark[]).map(benchmark => (
+                      <SelectItem key={benchmark} value={benchmark}>{BENCHMARK_LABELS[benchmark]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="spread" className="text-xs text-muted-foreground">Spread (%)</Label>
+                <Input id="spread" type="number" step="0.01" value={floatingRate.spread} onChange={(e) => setFloatingRate({ ...floatingRate, spread: parseFloat(e.target.value) || 0 })} className="h-9" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Resets every</Label>
+                <Select value={String(floatingRate.resetMonths)} onValueChange={(v) => setFloatingRate({ ...floatingRate, resetMonths: Number(v) })}>
+                  <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RESET_FREQUENCIES.map(months => (
+                      <SelectItem key={months} value={String(months)}>{months === 1 ? "Month" : `${months} months`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-between items-center">
+              <Label className="text-xs text-muted-foreground">Benchmark rate history and outlook</Label>
+              <Button variant="outline" size="sm" onClick={addBenchmarkRate} className="h-7 px-2 border-dashed border-primary/40 text-primary text-xs">
+                <Plus className="w-3 h-3 mr-1" /> Benchmark
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {floatingRate.benchmarkRates.map((benchmarkRate) => (
+                <div key={benchmarkRate.id} className="flex gap-2 items-end">
+                  <div className="grid grid-cols-2 gap-2 flex-1">
+                    <DateInput date={benchmarkRate.date} onChange={(d) => updateBenchmarkRate(benchmarkRate.id, { date: d })} />
+                    <Input type="number" step="0.01" value={benchmarkRate.rate} onChange={(e) => updateBenchmarkRate(benchmarkRate.id, { rate: parseFloat(e.target.value) })} className="h-9" />
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setFloatingRate({ ...floatingRate, benchmarkRates: floatingRate.benchmarkRates.filter(r => r.id !== benchmarkRate.id) })} className="h-9 w-9 text-muted-foreground"><Trash2 className="w-4 h-4" /></Button>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">The loan rate becomes benchmark + spread on each reset date; the initial rate applies until a benchmark value is in force.</p>
           </div>
+        ) : (
           <div className="space-y-2">
-            {rateChanges.map((change) => (
-              <div key={change.id} className="flex gap-2 items-end">
-                <div className="grid grid-cols-2 gap-2 flex-1">
-                  <DateInput date={change.date} onChange={(d) => setRateChanges(rateChanges.map(r => r.id === change.id ? { ...r, date: d } : r))} />
-                  <Input type="number" step="0.01" value={change.rate} onChange={(e) => setRateChanges(rateChanges.map(r => r.id === change.id ? { ...r, rate: parseFloat(e.target.value) } : r))} className="h-9" />
+            <div className="flex justify-between items-center">
+              <Label className="text-xs text-muted-foreground">Interest Rate Changes</Label>
+              <Button variant="outline" size="sm" onClick={addRateChange} className="h-7 px-2 border-dashed border-primary/40 text-primary text-xs">
+                <Plus className="w-3 h-3 mr-1" /> Rate Change
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {rateChanges.map((change) => (
+                <div key={change.id} className="flex gap-2 items-end">
+                  <div className="grid grid-cols-2 gap-2 flex-1">
+                    <DateInput date={change.date} onChange={(d) => setRateChanges(rateChanges.map(r => r.id === change.id ? { ...r, date: d } : r))} />
+                    <Input type="number" step="0.01" value={change.rate} onChange={(e) => setRateChanges(rateChanges.map(r => r.id === change.id ? { ...r, rate: parseFloat(e.target.value) } : r))} className="h-9" />
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setRateChanges(rateChanges.filter(r => r.id !== change.id))} className="h-9 w-9 text-muted-foreground"><Trash2 className="w-4 h-4" /></Button>
                 </div>
-                <Button variant="ghost" size="icon" onClick={() => setRateChanges(rateChanges.filter(r => r.id !== change.id))} className="h-9 w-9 text-muted-foreground"><Trash2 className="w-4 h-4" /></Button>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         <Separator />
 
@@ -243,12 +657,35 @@ export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
               <Plus className="w-3 h-3 mr-1" /> Extra Pay
             </Button>
           </div>
+          {(extraPayments.length > 0 || recurringPayments.length > 0) && (
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-xs text-muted-foreground">After each prepayment</Label>
+              <Select value={prepaymentStrategy} onValueChange={(v) => setPrepaymentStrategy(v as PrepaymentStrategy)}>
+                <SelectTrigger className="h-8 w-[170px] text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="reduce-emi">Reduce EMI</SelectItem>
+                  <SelectItem value="reduce-tenure">Keep EMI, reduce tenure</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="space-y-2">
             {extraPayments.map((payment) => (
               <div key={payment.id} className="flex gap-2 items-end">
-                <div className="grid grid-cols-2 gap-2 flex-1">
+                <div className="grid grid-cols-3 gap-2 flex-1">
                   <DateInput date={payment.date} onChange={(d) => setExtraPayments(extraPayments.map(p => p.id === payment.id ? { ...p, date: d } : p))} />
                   <Input type="number" value={payment.amount} onChange={(e) => setExtraPayments(extraPayments.map(p => p.id === payment.id ? { ...p, amount: parseFloat(e.target.value) } : p))} className="h-9" />
+                  <Select
+                    value={payment.strategy ?? "default"}
+                    onValueChange={(v) => setExtraPayments(extraPayments.map(p => p.id === payment.id ? { ...p, strategy: v === "default" ? undefined : v as PrepaymentStrategy } : p))}
+                  >
+                    <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default</SelectItem>
+                      <SelectItem value="reduce-emi">Reduce EMI</SelectItem>
+                      <SelectItem value="reduce-tenure">Reduce tenure</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
                 <Button variant="ghost" size="icon" onClick={() => setExtraPayments(extraPayments.filter(p => p.id !== payment.id))} className="h-9 w-9 text-muted-foreground"><Trash2 className="w-4 h-4" /></Button>
               </div>
@@ -256,6 +693,73 @@ export function LoanInputs({ onCalculate, onSave }: LoanInputsProps) {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <Label className="font-semibold text-sm">Recurring Prepayments</Label>
+            <Button variant="outline" size="sm" onClick={addRecurringPayment} className="h-7 px-2 border-dashed border-primary/40 text-primary text-xs">
+              <Plus className="w-3 h-3 mr-1" /> Add Rule
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {recurringPayments.map((rule) => (
+              <div key={rule.id} className="flex gap-2 items-start rounded-md border p-2">
+                <div className="grid grid-cols-3 gap-2 flex-1">
+                  <div className="flex flex-col gap-1">
+                    <Label className="text-xs text-muted-foreground">Frequency</Label>
+                    <Select value={rule.frequency} onValueChange={(v) => updateRecurringPayment(rule.id, { frequency: v as PaymentFrequency })}>
+                      <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(FREQUENCY_LABELS) as PaymentFrequency[]).map(key => (
+                          <SelectItem key={key} value={key}>{FREQUENCY_LABELS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <Label className="text-xs text-muted-foreground">Amount</Label>
+                    <Input type="number" value={rule.amount} onChange={(e) => updateRecurringPayment(rule.id, { amount: parseFloat(e.target.value) })} className="h-9" />
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <Label className="text-xs text-muted-foreground">Step-up (%/yr)</Label>
+                    <Input type="number" step="1" value={rule.stepUpPercent} onChange={(e) => updateRecurringPayment(rule.id, { stepUpPercent: parseFloat(e.target.value) || 0 })} className="h-9" />
+                  </div>
+                  <DateInput label="From" date={rule.startDate} onChange={(d) => updateRecurringPayment(rule.id, { startDate: d })} />
+                  <div className="flex flex-col gap-1">
+                    <Label className="text-xs text-muted-foreground">Until</Label>
+                    <Input
+                      type="date"
+                      value={rule.endDate ? format(rule.endDate, "yyyy-MM-dd") : ""}
+                      onChange={(e) => {
+                        const parsed = parse(e.target.value, "yyyy-MM-dd", new Date());
+                        updateRecurringPayment(rule.id, { endDate: isNaN(parsed.getTime()) ? null : parsed });
+                      }}
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <Label className="text-xs text-muted-foreground">After each</Label>
+                    <Select
+                      value={rule.strategy ?? "default"}
+                      onValueChange={(v) => updateRecurringPayment(rule.id, { strategy: v === "default" ? undefined : v as PrepaymentStrategy })}
+                    >
+                      <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Default</SelectItem>
+                        <SelectItem value="reduce-emi">Reduce EMI</SelectItem>
+                        <SelectItem value="reduce-tenure">Reduce tenure</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => setRecurringPayments(recurringPayments.filter(p => p.id !== rule.id))} className="h-9 w-9 text-muted-foreground"><Trash2 className="w-4 h-4" /></Button>
+              </div>
+            ))}
+            {recurringPayments.length > 0 && (
+              <p className="text-xs text-muted-foreground">Leave "Until" empty to keep paying until the loan closes.</p>
+            )}
+          </div>
+        </div>
+
         <Separator />
 
         <div className="space-y-2">
@@ -3,7 +3,7 @@ import {
   LineChart, Line
 } from 'recharts';
 import { format } from "date-fns";
-import { IndianRupee, Printer } from "lucide-react";
+import { IndianRupee, Printer, FileDown, FileSpreadsheet, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { 
@@ -16,7 +16,13 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
-import type { CalculationResult } from "@/lib/calculator";
+import { formatCurrency } from "@/lib/utils";
+import { exportCsv, exportXlsx } from "@/lib/export";
+import { TaxBenefits } from "@/components/TaxBenefits";
+import { YearlySummary } from "@/components/YearlySummary";
+import type { CalculationResult, EmiStepUp, PrepaymentStrategy, ScheduleEvent } from "@shared/calculator";
+import { DAY_COUNT_LABELS } from "@shared/day-count";
+import { BENCHMARK_LABELS, type Benchmark } from "@shared/floating-rate";
 
 interface LoanResultsProps {
   data: CalculationResult | null;
@@ -26,18 +32,24 @@ interface LoanResultsProps {
     interestRate: number;
     startDate: Date;
     fullEmiAtStart: number;
+    emiStepUp?: EmiStepUp | null;
+    repaymentMode?: string;
+    prepaymentStrategy?: PrepaymentStrategy;
+    emiStartDate?: Date | null;
+    floatingRate?: { benchmark: Benchmark; spread: number; resetMonths: number } | null;
     rateChanges: any[];
     extraPayments: any[];
     disbursals: any[];
   };
 }
 
-const formatCurrency = (amount: number) => {
-  return new Intl.NumberFormat('en-IN', {
-    style: 'currency',
-    currency: 'INR',
-    maximumFractionDigits: 0
-  }).format(amount);
+const strategyLabel = (strategy: PrepaymentStrategy) =>
+  strategy === "reduce-tenure" ? "Tenure reduced" : "EMI reduced";
+
+const describeEvent = (event: ScheduleEvent) => {
+  const day = format(event.date, "dd MMM");
+  if (event.type === "rate") return `${day}: rate ${event.rate}%`;
+  return `${day}: ${formatCurrency(event.amount ?? 0)} ${event.type === "disbursal" ? "disbursed" : "prepaid"}`;
 };
 
 export function LoanResults({ data, inputs }: LoanResultsProps) {
@@ -55,7 +67,8 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
     );
   }
 
-  const { summary, phases, schedule } = data;
+  const { summary, phases, schedule, warnings } = data;
+  const shortfalls = warnings.filter(w => w.type === "negative-amortization");
 
   const chartData = schedule.filter((_, i) => i % 6 === 0 || i === schedule.length - 1).map(item => ({
     date: format(item.date, "MMM yy"),
@@ -89,10 +102,29 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
                 <div className="flex justify-between"><span>Approved Loan:</span> <strong>{formatCurrency(inputs.totalLoan)}</strong></div>
                 <div className="flex justify-between"><span>Tenure:</span> <strong>{inputs.tenureYears} Years</strong></div>
                 <div className="flex justify-between"><span>Initial Interest Rate:</span> <strong>{inputs.interestRate}%</strong></div>
+                {inputs.floatingRate && (
+                  <div className="flex justify-between">
+                    <span>Floating Rate:</span>
+                    <strong>{BENCHMARK_LABELS[inputs.floatingRate.benchmark]} + {inputs.floatingRate.spread}%, reset every {inputs.floatingRate.resetMonths} mo</strong>
+                  </div>
+                )}
                 <div className="flex justify-between"><span>Start Date:</span> <strong>{format(inputs.startDate, "PPP")}</strong></div>
+                <div className="flex justify-between"><span>Day Count:</span> <strong>{DAY_COUNT_LABELS[summary.dayCount]}</strong></div>
+                {inputs.repaymentMode === "pre-emi" && inputs.emiStartDate && (
+                  <div className="flex justify-between"><span>Pre-EMI until:</span> <strong>{format(inputs.emiStartDate, "PPP")}</strong></div>
+                )}
                 {inputs.fullEmiAtStart > 0 && (
                   <div className="flex justify-between text-primary"><span>Target Monthly EMI:</span> <strong>{formatCurrency(inputs.fullEmiAtStart)}</strong></div>
                 )}
+                {inputs.emiStepUp && (
+                  <div className="flex justify-between">
+                    <span>EMI Step-up:</span>
+                    <strong>
+                      {inputs.emiStepUp.type === "percent" ? `${inputs.emiStepUp.value}%` : formatCurrency(inputs.emiStepUp.value)} every {format(new Date(2000, inputs.emiStepUp.month - 1, 1), "MMMM")}
+                      {inputs.emiStepUp.cap ? `, up to ${formatCurrency(inputs.emiStepUp.cap)}` : ""}
+                    </strong>
+                  </div>
+                )}
               </div>
               
               {inputs.disbursals && inputs.disbursals.length > 0 && (
@@ -111,7 +143,7 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
             </div>
 
             <div className="space-y-4">
-              {inputs.rateChanges.length > 0 && (
+              {!inputs.floatingRate && inputs.rateChanges.length > 0 && (
                 <div className="space-y-1">
                   <h3 className="font-bold border-b pb-1">Interest Rate Changes</h3>
                   {inputs.rateChanges.map((rc, i) => (
@@ -126,7 +158,8 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
                   <h3 className="font-bold border-b pb-1">Extra Principal Payments</h3>
                   {inputs.extraPayments.map((ep, i) => (
                     <div key={i} className="flex justify-between text-xs">
-                      <span>{format(new Date(ep.date), "dd MMM yyyy")}:</span> <strong>{formatCurrency(ep.amount)}</strong>
+                      <span>{format(new Date(ep.date), "dd MMM yyyy")}:</span>
+                      <strong>{formatCurrency(ep.amount)} ({strategyLabel(ep.strategy ?? inputs.prepaymentStrategy ?? "reduce-emi")})</strong>
                     </div>
                   ))}
                 </div>
@@ -148,6 +181,7 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
           <CardContent className="pt-6 print:pt-4">
             <p className="text-sm text-muted-foreground mb-1">Total Interest</p>
             <p className="text-2xl font-bold text-destructive print:text-xl">{formatCurrency(summary.totalInterest)}</p>
+            <p className="text-xs text-muted-foreground mt-1">{DAY_COUNT_LABELS[summary.dayCount]}</p>
           </CardContent>
         </Card>
         <Card className="shadow-sm print:shadow-none">
@@ -160,21 +194,44 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
           <CardContent className="pt-6 print:pt-4">
             <p className="text-sm text-muted-foreground mb-1">Extra Principal Paid</p>
             <p className="text-2xl font-bold text-primary print:text-xl">{formatCurrency(summary.totalExtraPaid)}</p>
+            {summary.monthsSaved > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">Closes {summary.monthsSaved} months early</p>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {shortfalls.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-destructive/50 p-4 text-sm text-destructive print:break-inside-avoid">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <div>
+            The EMI did not cover the interest in {shortfalls.length} {shortfalls.length === 1 ? "month" : "months"}, starting {format(shortfalls[0].date, "MMM yyyy")}.
+            {summary.shortfallPolicy === "capitalize"
+              ? ` ${formatCurrency(shortfalls.reduce((sum, w) => sum + w.amount, 0))} of unpaid interest was added to the principal.`
+              : ` ${formatCurrency(summary.interestNotCharged)} of unpaid interest was flagged and left out of the interest total.`}
+          </div>
+        </div>
+      )}
+
       {/* EMI Phases Table */}
       <Card className="print:border print:shadow-none print:break-inside-avoid">
         <CardHeader className="pb-3 px-4">
           <div className="flex justify-between items-center">
             <div>
               <CardTitle>Disbursal Phases & EMI Timeline</CardTitle>
-              <CardDescription className="print:hidden">How your EMI changes with each disbursal</CardDescription>
+              <CardDescription className="print:hidden">How your EMI changes with each disbursal, rate change and step-up</CardDescription>
+            </div>
+            <div className="flex items-center gap-2 print:hidden">
+              <Button variant="outline" size="sm" onClick={() => exportCsv(data)}>
+                <FileDown className="w-4 h-4 mr-2" /> CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportXlsx(data)}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" /> Excel
+              </Button>
+              <Button variant="outline" size="sm" onClick={handlePrint}>
+                <Printer className="w-4 h-4 mr-2" /> Print Results
+              </Button>
             </div>
-            <Button variant="outline" size="sm" onClick={handlePrint} className="print:hidden">
-              <Printer className="w-4 h-4 mr-2" /> Print Results
-            </Button>
           </div>
         </CardHeader>
         <CardContent className="px-4">
@@ -193,12 +250,19 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
               <TableBody>
                 {phases.map((phase, i) => (
                   <TableRow key={i} className="hover:bg-muted/5 print:border-b print:border-gray-200">
-                    <TableCell><Badge variant="outline" className="print:border-none print:p-0">Phase {i + 1}</Badge></TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="print:border-none print:p-0">Phase {i + 1}</Badge>
+                      {phase.repaymentType === "pre-emi" && <Badge variant="secondary" className="ml-1 font-normal">Pre-EMI</Badge>}
+                      {phase.prepaymentStrategy && <Badge variant="secondary" className="ml-1 font-normal">Prepaid · {strategyLabel(phase.prepaymentStrategy)}</Badge>}
+                      {phase.emiStepUp && <Badge variant="secondary" className="ml-1 font-normal">Step-up +{formatCurrency(phase.emiStepUp)}</Badge>}
+                    </TableCell>
                     <TableCell>{format(phase.startDate, "dd MMM yyyy")}</TableCell>
                     <TableCell className="text-right">{formatCurrency(phase.principalAtStart)}</TableCell>
                     <TableCell className="text-right text-emerald-600 font-medium print:text-black">+{formatCurrency(phase.disbursalAdded)}</TableCell>
                     <TableCell className="text-center text-muted-foreground print:text-black">{Math.round(phase.remainingTenureMonths)} mo</TableCell>
-                    <TableCell className="text-right font-bold text-primary text-lg print:text-black print:text-base">{formatCurrency(phase.emi)}</TableCell>
+                    <TableCell className="text-right font-bold text-primary text-lg print:text-black print:text-base">
+                      {phase.repaymentType === "pre-emi" ? <span className="text-sm font-medium text-muted-foreground">Interest only</span> : formatCurrency(phase.emi)}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -207,6 +271,10 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
         </CardContent>
       </Card>
 
+      <YearlySummary data={data} />
+
+      <TaxBenefits data={data} possessionDate={inputs?.repaymentMode === "pre-emi" ? inputs.emiStartDate : null} />
+
       <div className="print:break-before-page"></div>
 
       {/* Amortization Schedule (Visible for Print) */}
@@ -230,7 +298,7 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
           <TableBody>
             {schedule.map((row) => (
               <TableRow key={row.month} className="text-[9pt] border-b border-gray-100 h-8">
-                <TableCell className="py-1">{format(row.date, "MMM yyyy")}</TableCell>
+                <TableCell className="py-1">{format(row.date, "MMM yyyy")}{row.repaymentType === "pre-emi" && " (Pre-EMI)"}</TableCell>
                 <TableCell className="text-right py-1">{formatCurrency(row.openingPrincipal)}</TableCell>
                 <TableCell className="text-right py-1 text-muted-foreground">{formatCurrency(row.theoreticalEmi)}</TableCell>
                 <TableCell className="text-right font-medium py-1">{formatCurrency(row.emi)}</TableCell>
@@ -302,14 +370,26 @@ export function LoanResults({ data, inputs }: LoanResultsProps) {
                   </TableHeader>
                   <TableBody>
                     {schedule.map((row) => (
-                      <TableRow key={row.month} className={row.month % 12 === 0 ? "bg-muted/10" : ""}>
+                      <TableRow key={row.month} className={row.interestShortfall ? "bg-destructive/5" : row.month % 12 === 0 ? "bg-muted/10" : ""}>
                         <TableCell className="font-mono text-muted-foreground">{row.month}</TableCell>
-                        <TableCell>{format(row.date, "MMM yyyy")}</TableCell>
+                        <TableCell>
+                          {format(row.date, "MMM yyyy")}
+                          {row.repaymentType === "pre-emi" && <Badge variant="secondary" className="ml-2 font-normal">Pre-EMI</Badge>}
+                          {row.events?.map(event => (
+                            <div key={event.id} className="text-xs text-muted-foreground whitespace-nowrap">{describeEvent(event)}</div>
+                          ))}
+                        </TableCell>
                         <TableCell className="text-right text-muted-foreground">{formatCurrency(row.openingPrincipal)}</TableCell>
                         <TableCell className="text-right text-muted-foreground italic">{formatCurrency(row.theoreticalEmi)}</TableCell>
                         <TableCell className="text-right font-medium">{formatCurrency(row.emi)}</TableCell>
-                        <TableCell className="text-right text-destructive/80">{formatCurrency(row.interest)}</TableCell>
-                        <TableCell className="text-right text-primary font-medium">{formatCurrency(row.extraPaid)}</TableCell>
+                        <TableCell className="text-right text-destructive/80">
+                          {formatCurrency(row.interest)}
+                          {row.interestShortfall && <div className="text-xs font-semibold text-destructive">{formatCurrency(row.interestShortfall)} unpaid</div>}
+                        </TableCell>
+                        <TableCell className="text-right text-primary font-medium">
+                          {formatCurrency(row.extraPaid)}
+                          {row.prepaymentStrategy && <div className="text-xs font-normal text-muted-foreground">{strategyLabel(row.prepaymentStrategy)}</div>}
+                        </TableCell>
                         <TableCell className="text-right font-medium">{formatCurrency(row.closingPrincipal)}</TableCell>
                       </TableRow>
                     ))}
@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { addMonths, format, parse, startOfMonth } from "date-fns";
+import {
+  Area, Bar, BarChart, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from "recharts";
+import { Dices, Loader2 } from "lucide-react";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { MAX_PATHS, type Bands, type MonteCarloMessage, type MonteCarloResult, type MonteCarloSettings } from "@/lib/monte-carlo";
+import { formatCurrency } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface MonteCarloProps {
+  inputs: LoanInputData;
+}
+
+const BAND_LABELS: { key: keyof Bands; label: string }[] = [
+  { key: "p10", label: "P10" },
+  { key: "p50", label: "P50" },
+  { key: "p90", label: "P90" },
+];
+
+const compactCurrency = (value: number) => `₹${(value / 100000).toFixed(1)}L`;
+
+export function MonteCarlo({ inputs }: MonteCarloProps) {
+  const [paths, setPaths] = useState("1000");
+  const [seed, setSeed] = useState("42");
+  const [volatility, setVolatility] = useState("1");
+  const [meanReversion, setMeanReversion] = useState("0.3");
+  const [longRunRate, setLongRunRate] = useState("");
+  const [resetMonths, setResetMonths] = useState("3");
+  const [startDate, setStartDate] = useState(format(startOfMonth(addMonths(new Date(), 1)), "yyyy-MM-dd"));
+
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // A run describes the inputs it was started with; drop it once they change.
+  useEffect(() => {
+    stop();
+    setResult(null);
+  }, [inputs]);
+
+  useEffect(() => stop, []);
+
+  const run = () => {
+    stop();
+    setError(null);
+    const settings: MonteCarloSettings = {
+      paths: Math.min(MAX_PATHS, parseInt(paths) || 1000),
+      seed: parseInt(seed) || 0,
+      volatility: parseFloat(volatility) || 0,
+      meanReversion: parseFloat(meanReversion) || 0,
+      longRunRate: longRunRate === "" ? null : parseFloat(longRunRate),
+      resetMonths: Number(resetMonths),
+      startDate: parse(startDate, "yyyy-MM-dd", new Date()),
+    };
+    if (isNaN(settings.startDate.getTime())) {
+      setError("Pick a valid date for the simulation to start");
+      return;
+    }
+
+    const worker = new Worker(new URL("../lib/monte-carlo.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    setProgress(0);
+    worker.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        setProgress((message.done / message.total) * 100);
+        return;
+      }
+      if (message.type === "result") setResult(message.result);
+      else setError(message.message);
+      stop();
+    };
+    worker.onerror = () => {
+      setError("Simulation failed");
+      stop();
+    };
+    worker.postMessage({ inputs, settings });
+  };
+
+  const principalData = result?.principal
+    .filter((_, i, all) => i % 3 === 0 || i === all.length - 1)
+    .map(point => ({
+      date: format(point.date, "MMM yy"),
+      range: [Math.round(point.p10), Math.round(point.p90)],
+      p50: Math.round(point.p50),
+    }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 px-4">
+        <CardTitle>Monte Carlo Rate Simulation</CardTitle>
+        <CardDescription>
+          Thousands of random, mean-reverting rate paths from a start date. The same seed and inputs always give the same result.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 space-y-6">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="mcStart" className="text-xs text-muted-foreground">Simulate from</Label>
+            <Input id="mcStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mcVolatility" className="text-xs text-muted-foreground">Volatility (% a year)</Label>
+            <Input id="mcVolatility" type="number" step="0.1" value={volatility} onChange={(e) => setVolatility(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mcReversion" className="text-xs text-muted-foreground">Mean reversion (per year)</Label>
+            <Input id="mcReversion" type="number" step="0.05" value={meanReversion} onChange={(e) => setMeanReversion(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mcLongRun" className="text-xs text-muted-foreground">Long-run rate (%)</Label>
+            <Input id="mcLongRun" type="number" step="0.05" value={longRunRate} onChange={(e) => setLongRunRate(e.target.value)} placeholder="Current rate" className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Resets every</Label>
+            <Select value={resetMonths} onValueChange={setResetMonths}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Month</SelectItem>
+                <SelectItem value="3">3 months</SelectItem>
+                <SelectItem value="6">6 months</SelectItem>
+                <SelectItem value="12">12 months</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mcPaths" className="text-xs text-muted-foreground">Paths (max {MAX_PATHS})</Label>
+            <Input id="mcPaths" type="number" step="500" value={paths} onChange={(e) => setPaths(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mcSeed" className="text-xs text-muted-foreground">Seed</Label>
+            <Input id="mcSeed" type="number" value={seed} onChange={(e) => setSeed(e.target.value)} className="h-9" />
+          </div>
+          <div className="flex items-end">
+            {progress === null ? (
+              <Button onClick={run} className="w-full h-9">
+                <Dices className="w-4 h-4 mr-2" /> Run
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={stop} className="w-full h-9">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {progress !== null && <Progress value={progress} className="h-2" />}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="rounded-md border p-3 space-y-1">
+                <p className="text-sm text-muted-foreground">Total Interest</p>
+                {BAND_LABELS.map(band => (
+                  <div key={band.key} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{band.label}</span>
+                    <strong>{formatCurrency(result.totalInterest[band.key])}</strong>
+                  </div>
+                ))}
+              </div>
+              <div className="rounded-md border p-3 space-y-1">
+                <p className="text-sm text-muted-foreground">Closure Date</p>
+                {BAND_LABELS.map(band => (
+                  <div key={band.key} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{band.label}</span>
+                    <strong>{format(result.closureDate[band.key], "MMM yyyy")}</strong>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {result.paths} paths starting at {result.startRate}% and reverting towards {result.longRunRate.toFixed(2)}%.
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Total Interest Distribution</p>
+                <div className="h-[240px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={result.histogram.map(bin => ({ mid: Math.round((bin.from + bin.to) / 2), count: bin.count }))}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                      <XAxis dataKey="mid" type="number" domain={['dataMin', 'dataMax']} tickFormatter={compactCurrency} tick={{fontSize: 11}} axisLine={false} tickLine={false} />
+                      <YAxis hide={true} />
+                      <Tooltip labelFormatter={(value: number) => formatCurrency(value)} formatter={(value: number) => [`${value} paths`, "Count"]} />
+                      <Bar dataKey="count" fill="hsl(var(--primary))" radius={[2, 2, 0, 0]} />
+                      {BAND_LABELS.map(band => (
+                        <ReferenceLine
+                          key={band.key}
+                          x={Math.round(result.totalInterest[band.key])}
+                          stroke="hsl(var(--destructive))"
+                          strokeDasharray={band.key === "p50" ? undefined : "4 4"}
+                          label={{ value: band.label, position: "top", fontSize: 11 }}
+                        />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Outstanding Principal (P10-P90 band)</p>
+                <div className="h-[240px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={principalData}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                      <XAxis dataKey="date" tick={{fontSize: 11}} axisLine={false} tickLine={false} minTickGap={30} />
+                      <YAxis hide={true} />
+                      <Tooltip formatter={(value: number | number[]) => Array.isArray(value) ? value.map(formatCurrency).join(" – ") : formatCurrency(value)} />
+                      <Area type="monotone" dataKey="range" name="P10–P90" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.2} />
+                      <Line type="monotone" dataKey="p50" name="P50" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
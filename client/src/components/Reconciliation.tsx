@@ -0,0 +1,142 @@
+import { Fragment, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { EMIPayment } from "@shared/calculator";
+import type { ActualPayment } from "@shared/schema";
+import { reconcileSchedule, type FieldVariance, type ReconciledField } from "@shared/reconcile";
+import { cn, formatCurrency } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+
+interface ReconciliationProps {
+  schedule: EMIPayment[];
+  actuals: ActualPayment[];
+  onChange: (actuals: ActualPayment[]) => void;
+}
+
+const FIELDS: { key: ReconciledField; label: string }[] = [
+  { key: "interest", label: "Interest" },
+  { key: "emi", label: "EMI Debited" },
+  { key: "closingPrincipal", label: "Outstanding" },
+];
+
+const VarianceCell = ({ value }: { value: FieldVariance }) => (
+  <span className={cn("text-xs", value.flagged ? "text-destructive font-semibold" : "text-muted-foreground")}>
+    {value.variance == null ? "" : `${value.variance > 0 ? "+" : ""}${formatCurrency(value.variance)}`}
+  </span>
+);
+
+export function Reconciliation({ schedule, actuals, onChange }: ReconciliationProps) {
+  const [tolerance, setTolerance] = useState("100");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const result = useMemo(
+    () => reconcileSchedule(schedule, actuals, parseFloat(tolerance) || 0),
+    [schedule, actuals, tolerance]
+  );
+
+  const setActual = (month: string, field: ReconciledField, raw: string) => {
+    const value = raw === "" ? null : parseFloat(raw);
+    const existing = actuals.find(a => a.month === month) || { month };
+    const updated: ActualPayment = { ...existing, [field]: value != null && !isNaN(value) ? value : null };
+    const rest = actuals.filter(a => a.month !== month);
+    const isEmpty = FIELDS.every(f => updated[f.key] == null);
+    onChange(isEmpty ? rest : [...rest, updated].sort((a, b) => a.month.localeCompare(b.month)));
+  };
+
+  const rows = flaggedOnly ? result.rows.filter(r => r.flagged) : result.rows;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 px-4">
+        <div className="flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <CardTitle>Bank Statement Reconciliation</CardTitle>
+            <CardDescription>Record what the bank charged each month to catch drift from the projection</CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="tolerance" className="text-xs text-muted-foreground whitespace-nowrap">Tolerance (₹)</Label>
+              <Input id="tolerance" type="number" value={tolerance} onChange={(e) => setTolerance(e.target.value)} className="h-8 w-24" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="flaggedOnly" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+              <Label htmlFor="flaggedOnly" className="text-xs text-muted-foreground">Flagged only</Label>
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Badge variant="outline" className="font-normal">{result.recordedMonths} months recorded</Badge>
+          {result.flaggedMonths > 0 ? (
+            <Badge variant="destructive" className="font-normal">
+              <AlertTriangle className="w-3 h-3 mr-1" /> {result.flaggedMonths} months outside tolerance
+            </Badge>
+          ) : result.recordedMonths > 0 && (
+            <Badge variant="secondary" className="font-normal">
+              <CheckCircle2 className="w-3 h-3 mr-1" /> All recorded months match
+            </Badge>
+          )}
+          {result.recordedMonths > 0 && (
+            <Badge variant="outline" className="font-normal">
+              Interest variance {formatCurrency(result.totalInterestVariance)}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="px-4">
+        <div className="rounded-md border max-h-[500px] overflow-auto">
+          <Table>
+            <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
+              <TableRow>
+                <TableHead>Month</TableHead>
+                {FIELDS.map(f => (
+                  <TableHead key={f.key} className="text-right" colSpan={3}>{f.label} (₹)</TableHead>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableHead />
+                {FIELDS.map(f => (
+                  <Fragment key={f.key}>
+                    <TableHead className="text-right text-xs">Projected</TableHead>
+                    <TableHead className="text-right text-xs">Actual</TableHead>
+                    <TableHead className="text-right text-xs">Variance</TableHead>
+                  </Fragment>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.month} className={row.flagged ? "bg-destructive/5" : ""}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(row.payment.date, "MMM yyyy")}
+                    {row.flagged && <AlertTriangle className="inline w-3.5 h-3.5 ml-1 text-destructive" />}
+                  </TableCell>
+                  {FIELDS.map(f => (
+                    <Fragment key={f.key}>
+                      <TableCell className="text-right text-muted-foreground">{formatCurrency(row[f.key].projected)}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          value={row[f.key].actual ?? ""}
+                          onChange={(e) => setActual(row.month, f.key, e.target.value)}
+                          className="h-8 w-28 ml-auto text-right"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right"><VarianceCell value={row[f.key]} /></TableCell>
+                    </Fragment>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, Upload } from "lucide-react";
+import {
+  classifyRows,
+  guessColumnMapping,
+  readStatementFile,
+  withKind,
+  DATE_FORMAT_OPTIONS,
+  type ColumnMapping,
+  type DateFormatOption,
+  type ImportKind,
+  type ImportedRow,
+  type StatementTable,
+} from "@/lib/statement-import";
+import { cn, formatCurrency } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+
+export interface ImportedEntries {
+  disbursals: { date: Date; amount: number }[];
+  rateChanges: { date: Date; rate: number }[];
+  extraPayments: { date: Date; amount: number }[];
+}
+
+interface StatementImportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (entries: ImportedEntries) => void;
+}
+
+const MAPPED_FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "description", label: "Description" },
+  { key: "debit", label: "Debit" },
+  { key: "credit", label: "Credit" },
+];
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  disbursal: "Disbursal",
+  rate: "Rate change",
+  extra: "Extra payment",
+  ignore: "Ignore",
+};
+
+export function StatementImport({ open, onOpenChange, onImport }: StatementImportProps) {
+  const [table, setTable] = useState<StatementTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormatOption>("auto");
+  const [overrides, setOverrides] = useState<Record<number, ImportKind>>({});
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const rows: ImportedRow[] = useMemo(() => {
+    if (!table || !mapping) return [];
+    return classifyRows(table, mapping, dateFormat).map(row =>
+      overrides[row.index] ? withKind(row, overrides[row.index]) : row
+    );
+  }, [table, mapping, dateFormat, overrides]);
+
+  const included = rows.filter(r => r.kind !== "ignore");
+  const invalidCount = included.filter(r => r.errors.length > 0).length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReadError(null);
+    try {
+      const parsed = await readStatementFile(file);
+      if (parsed.rows.length === 0) throw new Error("The file has no data rows");
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setOverrides({});
+    } catch (err) {
+      setTable(null);
+      setReadError(err instanceof Error ? err.message : "Could not read the file");
+    }
+  };
+
+  const handleImport = () => {
+    const valid = included.filter(r => r.errors.length === 0 && r.date);
+    onImport({
+      disbursals: valid.filter(r => r.kind === "disbursal").map(r => ({ date: r.date!, amount: r.amount! })),
+      rateChanges: valid.filter(r => r.kind === "rate").map(r => ({ date: r.date!, rate: r.rate! })),
+      extraPayments: valid.filter(r => r.kind === "extra").map(r => ({ date: r.date!, amount: r.amount! })),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import bank statement</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) file of loan account transactions. Imported disbursals, rate changes and prepayments replace the matching lists in the form.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="statementFile">Statement file</Label>
+            <Input id="statementFile" type="file" accept=".csv,.xlsx" onChange={(e) => handleFile(e.target.files?.[0])} />
+            {readError && <p className="text-xs text-destructive">{readError}</p>}
+          </div>
+
+          {table && mapping && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {MAPPED_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">{field.label} column</Label>
+                    <Select
+                      value={String(mapping[field.key])}
+                      onValueChange={(v) => setMapping({ ...mapping, [field.key]: Number(v) })}
+                    >
+                      <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="-1">Not present</SelectItem>
+                        {table.headers.map((header, i) => (
+                          <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Date format</Label>
+                  <Select value={dateFormat} onValueChange={(v) => setDateFormat(v as DateFormatOption)}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMAT_OPTIONS.map(option => (
+                        <SelectItem key={option} value={option}>{option === "auto" ? "Auto (day first)" : option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="rounded-md border max-h-[400px] overflow-auto">
+                <Table>
+                  <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Debit (₹)</TableHead>
+                      <TableHead className="text-right">Credit (₹)</TableHead>
+                      <TableHead className="w-[160px]">Import as</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={row.index} className={cn(row.kind === "ignore" && "text-muted-foreground", row.errors.length > 0 && "bg-destructive/5")}>
+                        <TableCell className="whitespace-nowrap">{row.date ? format(row.date, "dd MMM yyyy") : "—"}</TableCell>
+                        <TableCell>
+                          <div>{row.description}</div>
+                          {row.errors.map(error => (
+                            <div key={error} className="flex items-center gap-1 text-xs text-destructive mt-1">
+                              <AlertCircle className="w-3 h-3" /> {error}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right">{row.debit != null ? formatCurrency(row.debit) : ""}</TableCell>
+                        <TableCell className="text-right">{row.credit != null ? formatCurrency(row.credit) : ""}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={row.kind}
+                            onValueChange={(v) => setOverrides({ ...overrides, [row.index]: v as ImportKind })}
+                          >
+                            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(KIND_LABELS) as ImportKind[]).map(kind => (
+                                <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {row.kind === "rate" && row.rate != null && (
+                            <div className="text-xs text-muted-foreground mt-1">{row.rate}%</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {included.length} of {rows.length} rows selected
+                {invalidCount > 0 && <span className="text-destructive"> · {invalidCount} need fixing or ignoring</span>}
+              </p>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={included.length === 0 || invalidCount > 0}>
+            <Upload className="w-4 h-4 mr-2" /> Fill form
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+import { useMemo, useState } from "react";
+import { addMonths, differenceInCalendarMonths, format, parse, startOfMonth } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Plus, Trash2 } from "lucide-react";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { runStressTest, type RatePath, type StressOutcome } from "@/lib/stress";
+import { cn, formatCurrency, newId } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+
+interface StressTestProps {
+  inputs: LoanInputData;
+}
+
+interface CustomStep {
+  id: string;
+  date: string; // yyyy-MM-dd, as typed
+  shiftBps: number;
+}
+
+const PRESET_SHOCKS = [50, 100, 200];
+const PATH_COLORS = [
+  "hsl(var(--muted-foreground))",
+  "hsl(var(--primary))",
+  "hsl(var(--accent))",
+  "hsl(var(--destructive))",
+  "hsl(38 92% 50%)",
+];
+
+const toDate = (value: string) => parse(value, "yyyy-MM-dd", new Date());
+const signed = (value: number, render: (v: number) => string) =>
+  value === 0 ? "—" : `${value > 0 ? "+" : "-"}${render(Math.abs(value))}`;
+
+export function StressTest({ inputs }: StressTestProps) {
+  const [shockDate, setShockDate] = useState(format(startOfMonth(addMonths(new Date(), 1)), "yyyy-MM-dd"));
+  const [presets, setPresets] = useState<number[]>(PRESET_SHOCKS);
+  const [customSteps, setCustomSteps] = useState<CustomStep[]>([]);
+
+  const paths: RatePath[] = useMemo(() => {
+    const from = toDate(shockDate);
+    if (isNaN(from.getTime())) return [];
+    const validSteps = customSteps
+      .map(step => ({ date: toDate(step.date), shiftBps: step.shiftBps }))
+      .filter(step => !isNaN(step.date.getTime()) && !isNaN(step.shiftBps));
+    return [
+      { key: "base", label: "Base", shocks: [] },
+      ...presets.map(bps => ({ key: `+${bps}`, label: `+${bps} bps`, shocks: [{ date: from, shiftBps: bps }] })),
+      ...(validSteps.length > 0 ? [{ key: "custom", label: "Custom path", shocks: validSteps }] : []),
+    ];
+  }, [shockDate, presets, customSteps]);
+
+  const outcomes = useMemo(() => runStressTest(inputs, paths), [inputs, paths]);
+  const base = outcomes[0];
+
+  const togglePreset = (bps: number) =>
+    setPresets(presets.includes(bps) ? presets.filter(p => p !== bps) : [...presets, bps].sort((a, b) => a - b));
+
+  const addStep = () => {
+    const last = customSteps[customSteps.length - 1];
+    const date = last ? format(addMonths(toDate(last.date), 12), "yyyy-MM-dd") : shockDate;
+    setCustomSteps([...customSteps, { id: newId(), date, shiftBps: last ? last.shiftBps + 50 : 50 }]);
+  };
+
+  const charts: { title: string; value: (o: StressOutcome) => number; render: (v: number) => string }[] = [
+    { title: "Total Interest", value: o => Math.round(o.totalInterest), render: formatCurrency },
+    { title: "Peak EMI", value: o => Math.round(o.peakEmi), render: formatCurrency },
+    { title: "Months to Close", value: o => o.months, render: v => `${v} mo` },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 px-4">
+        <CardTitle>Rate Stress Test</CardTitle>
+        <CardDescription>How the EMI, closure date and total interest move if rates rise from a future date</CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 space-y-6">
+        <div className="flex flex-wrap items-end gap-6">
+          <div className="space-y-1">
+            <Label htmlFor="shockDate" className="text-xs text-muted-foreground">Rates rise from</Label>
+            <Input id="shockDate" type="date" value={shockDate} onChange={(e) => setShockDate(e.target.value)} className="h-8 w-40" />
+          </div>
+          <div className="flex items-center gap-4 pb-1.5">
+            {PRESET_SHOCKS.map(bps => (
+              <div key={bps} className="flex items-center gap-2">
+                <Checkbox id={`shock-${bps}`} checked={presets.includes(bps)} onCheckedChange={() => togglePreset(bps)} />
+                <Label htmlFor={`shock-${bps}`} className="text-sm">+{bps} bps</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <Label className="text-xs text-muted-foreground">Custom path: from each date, rates sit this many bps above the plan</Label>
+            <Button variant="outline" size="sm" onClick={addStep} className="h-7 px-2 border-dashed border-primary/40 text-primary text-xs">
+              <Plus className="w-3 h-3 mr-1" /> Step
+            </Button>
+          </div>
+          {customSteps.map(step => (
+            <div key={step.id} className="flex gap-2 items-center">
+              <Input
+                type="date"
+                value={step.date}
+                onChange={(e) => setCustomSteps(customSteps.map(s => s.id === step.id ? { ...s, date: e.target.value } : s))}
+                className="h-8 w-40"
+              />
+              <Input
+                type="number"
+                step="25"
+                value={step.shiftBps}
+                onChange={(e) => setCustomSteps(customSteps.map(s => s.id === step.id ? { ...s, shiftBps: parseFloat(e.target.value) } : s))}
+                className="h-8 w-28"
+              />
+              <span className="text-xs text-muted-foreground">bps</span>
+              <Button variant="ghost" size="icon" onClick={() => setCustomSteps(customSteps.filter(s => s.id !== step.id))} className="h-8 w-8 text-muted-foreground">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {charts.map(chart => (
+            <div key={chart.title} className="space-y-2">
+              <p className="text-sm font-medium">{chart.title}</p>
+              <div className="h-[200px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={outcomes.map(o => ({ label: o.label, value: chart.value(o) }))}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                    <XAxis dataKey="label" tick={{fontSize: 11}} axisLine={false} tickLine={false} interval={0} />
+                    <YAxis hide={true} domain={['auto', 'auto']} />
+                    <Tooltip formatter={(value: number) => chart.render(value)} />
+                    <Bar dataKey="value" name={chart.title} radius={[4, 4, 0, 0]}>
+                      {outcomes.map((o, i) => (
+                        <Cell key={o.key} fill={PATH_COLORS[i % PATH_COLORS.length]} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {base && (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-muted/50">
+                <TableRow>
+                  <TableHead>Path</TableHead>
+                  <TableHead className="text-right">Total Interest</TableHead>
+                  <TableHead className="text-right">Peak EMI</TableHead>
+                  <TableHead className="text-right">Closure</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outcomes.map((o, i) => (
+                  <TableRow key={o.key}>
+                    <TableCell className="font-medium">
+                      <span className="inline-flex items-center gap-2">
+                        <span className="h-2.5 w-2.5 rounded-full" style={{ background: PATH_COLORS[i % PATH_COLORS.length] }} />
+                        {o.label}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(o.totalInterest)}
+                      {i > 0 && <div className="text-xs text-muted-foreground">{signed(Math.round(o.totalInterest - base.totalInterest), formatCurrency)}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(o.peakEmi)}
+                      {i > 0 && <div className="text-xs text-muted-foreground">{signed(Math.round(o.peakEmi - base.peakEmi), formatCurrency)}</div>}
+                    </TableCell>
+                    <TableCell className={cn("text-right", i > 0 && o.closureDate > base.closureDate && "text-destructive")}>
+                      {format(o.closureDate, "MMM yyyy")}
+                      {i > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {signed(differenceInCalendarMonths(o.closureDate, base.closureDate), v => `${v} mo`)}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, parse } from "date-fns";
+import type { CalculationResult } from "@shared/calculator";
+import { calculateTaxBenefit, DEFAULT_TAX_SETTINGS, PRE_CONSTRUCTION_INSTALMENTS } from "@/lib/tax";
+import { formatCurrency } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+
+interface TaxBenefitsProps {
+  data: CalculationResult;
+  possessionDate?: Date | null; // The plan's EMI start date for pre-EMI loans
+}
+
+export function TaxBenefits({ data, possessionDate }: TaxBenefitsProps) {
+  const [slabRate, setSlabRate] = useState(String(DEFAULT_TAX_SETTINGS.slabRate));
+  const [interestCap, setInterestCap] = useState(String(DEFAULT_TAX_SETTINGS.interestCap));
+  const [principalCap, setPrincipalCap] = useState(String(DEFAULT_TAX_SETTINGS.principalCap));
+  const [other80C, setOther80C] = useState(String(DEFAULT_TAX_SETTINGS.other80C));
+  const [possession, setPossession] = useState(possessionDate ? format(possessionDate, "yyyy-MM-dd") : "");
+
+  useEffect(() => {
+    setPossession(possessionDate ? format(possessionDate, "yyyy-MM-dd") : "");
+  }, [possessionDate]);
+
+  const tax = useMemo(() => {
+    const parsed = parse(possession, "yyyy-MM-dd", new Date());
+    return calculateTaxBenefit(data, {
+      slabRate: parseFloat(slabRate) || 0,
+      interestCap: parseFloat(interestCap) || 0,
+      principalCap: parseFloat(principalCap) || 0,
+      other80C: parseFloat(other80C) || 0,
+      possessionDate: isNaN(parsed.getTime()) ? null : parsed,
+    });
+  }, [data, slabRate, interestCap, principalCap, other80C, possession]);
+
+  return (
+    <Card className="print:border print:shadow-none print:break-inside-avoid">
+      <CardHeader className="pb-3 px-4">
+        <CardTitle>Tax Benefits</CardTitle>
+        <CardDescription className="print:hidden">
+          Section 24(b) interest and 80C principal deductions per financial year (old regime, self-occupied home)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 print:hidden">
+          <div className="space-y-1">
+            <Label htmlFor="taxSlab" className="text-xs text-muted-foreground">Slab rate incl. cess (%)</Label>
+            <Input id="taxSlab" type="number" step="0.1" value={slabRate} onChange={(e) => setSlabRate(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="taxInterestCap" className="text-xs text-muted-foreground">24(b) cap (₹)</Label>
+            <Input id="taxInterestCap" type="number" value={interestCap} onChange={(e) => setInterestCap(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="taxPrincipalCap" className="text-xs text-muted-foreground">80C cap (₹)</Label>
+            <Input id="taxPrincipalCap" type="number" value={principalCap} onChange={(e) => setPrincipalCap(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="taxOther80C" className="text-xs text-muted-foreground">Other 80C used (₹)</Label>
+            <Input id="taxOther80C" type="number" value={other80C} onChange={(e) => setOther80C(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="taxPossession" className="text-xs text-muted-foreground">Possession</Label>
+            <Input id="taxPossession" type="date" value={possession} onChange={(e) => setPossession(e.target.value)} className="h-9" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="rounded-md border p-3">
+            <p className="text-sm text-muted-foreground">Tax Saved</p>
+            <p className="text-xl font-bold text-primary">{formatCurrency(tax.totalTaxSaved)}</p>
+            <p className="text-xs text-muted-foreground mt-1">{formatCurrency(tax.interestTaxSaved)} of it on interest</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-sm text-muted-foreground">Post-tax Interest Cost</p>
+            <p className="text-xl font-bold text-destructive">{formatCurrency(tax.netInterestCost)}</p>
+            {tax.totalInterest > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {((tax.netInterestCost / tax.totalInterest) * 100).toFixed(1)}% of the {formatCurrency(tax.totalInterest)} interest paid
+              </p>
+            )}
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-sm text-muted-foreground">Pre-construction Interest</p>
+            <p className="text-xl font-bold">{formatCurrency(tax.preConstructionInterest)}</p>
+            <p className="text-xs text-muted-foreground mt-1">Claimed in {PRE_CONSTRUCTION_INSTALMENTS} equal parts from the year of possession</p>
+          </div>
+        </div>
+
+        <div className="rounded-md border max-h-[400px] overflow-auto print:max-h-none print:overflow-visible">
+          <Table>
+            <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead className="text-right">Interest Paid (₹)</TableHead>
+                <TableHead className="text-right">Principal Paid (₹)</TableHead>
+                <TableHead className="text-right">24(b) (₹)</TableHead>
+                <TableHead className="text-right">80C (₹)</TableHead>
+                <TableHead className="text-right">Tax Saved (₹)</TableHead>
+                <TableHead className="text-right">Net Interest (₹)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tax.years.map(year => (
+                <TableRow key={year.startYear}>
+                  <TableCell className="font-medium whitespace-nowrap">{year.label}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.interestPaid)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.principalPaid)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(year.interestDeduction)}
+                    {year.preConstructionClaim > 0 && (
+                      <div className="text-xs text-muted-foreground">{formatCurrency(year.preConstructionClaim)} pre-construction share</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.principalDeduction)}</TableCell>
+                  <TableCell className="text-right text-primary font-medium">{formatCurrency(year.taxSaved)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.netInterestCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { format } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { useCalculationVersions, useRestoreCalculationVersion } from "@/hooks/use-calculations";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface VersionHistoryProps {
+  calculationId: number;
+}
+
+export function VersionHistory({ calculationId }: VersionHistoryProps) {
+  const { data: versions, isLoading } = useCalculationVersions(calculationId);
+  const { mutate: restoreVersion, isPending: isRestoring } = useRestoreCalculationVersion();
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full rounded-lg" />;
+  }
+
+  if (!versions || versions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No versions recorded for this plan yet.</p>;
+  }
+
+  const latest = versions[0].version;
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {versions.map((v) => (
+        <li key={v.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary/60" />
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-sm">Version {v.version}</span>
+                {v.version === latest && <Badge variant="secondary" className="font-normal">Current</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {v.createdAt ? format(new Date(v.createdAt), "dd MMM yyyy, HH:mm") : "—"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {v.snapshot.name} · ₹ {parseInt(v.snapshot.totalLoanAmount).toLocaleString('en-IN')} @ {v.snapshot.interestRate}% · {v.snapshot.loanTenureYears} Years · {v.snapshot.disbursals.length} disbursals
+              </p>
+            </div>
+            {v.version !== latest && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isRestoring}
+                onClick={() => restoreVersion({ id: calculationId, version: v.version })}
+              >
+                <RotateCcw className="w-3.5 h-3.5 mr-1" /> Restore this version
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
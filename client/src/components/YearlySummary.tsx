@@ -0,0 +1,93 @@
+import { useMemo, useState } from "react";
+import { FileDown, FileSpreadsheet } from "lucide-react";
+import type { CalculationResult } from "@shared/calculator";
+import { summarizeByYear, YEAR_BASIS_LABELS, type YearBasis } from "@/lib/year-summary";
+import { exportYearsCsv, exportYearsXlsx } from "@/lib/export";
+import { formatCurrency } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+
+interface YearlySummaryProps {
+  data: CalculationResult;
+}
+
+export function YearlySummary({ data }: YearlySummaryProps) {
+  const [basis, setBasis] = useState<YearBasis>("financial");
+  const years = useMemo(() => summarizeByYear(data, basis), [data, basis]);
+
+  const total = (pick: (year: (typeof years)[number]) => number) => years.reduce((sum, year) => sum + pick(year), 0);
+
+  return (
+    <Card className="print:border print:shadow-none print:break-inside-avoid">
+      <CardHeader className="pb-3 px-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div>
+            <CardTitle>Year-wise Summary</CardTitle>
+            <CardDescription className="print:hidden">Totals per {basis === "financial" ? "financial year (April–March), as on interest certificates" : "calendar year"}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2 print:hidden">
+            <ToggleGroup type="single" size="sm" variant="outline" value={basis} onValueChange={(v) => v && setBasis(v as YearBasis)}>
+              {(Object.keys(YEAR_BASIS_LABELS) as YearBasis[]).map(key => (
+                <ToggleGroupItem key={key} value={key} className="text-xs px-2">{YEAR_BASIS_LABELS[key]}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Button variant="outline" size="sm" onClick={() => exportYearsCsv(data, basis)}>
+              <FileDown className="w-4 h-4 mr-2" /> CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => exportYearsXlsx(data, basis)}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" /> Excel
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="px-4">
+        <div className="rounded-md border max-h-[400px] overflow-auto print:max-h-none print:overflow-visible print:border-none">
+          <Table>
+            <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead className="text-right">Opening (₹)</TableHead>
+                <TableHead className="text-right">Disbursed (₹)</TableHead>
+                <TableHead className="text-right">Interest (₹)</TableHead>
+                <TableHead className="text-right">Principal (₹)</TableHead>
+                <TableHead className="text-right">Prepaid (₹)</TableHead>
+                <TableHead className="text-right">Closing (₹)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {years.map(year => (
+                <TableRow key={year.startYear}>
+                  <TableCell className="font-medium whitespace-nowrap">
+                    {year.label}
+                    {year.months < 12 && <span className="ml-1 text-xs text-muted-foreground">({year.months} mo)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.openingBalance)}</TableCell>
+                  <TableCell className="text-right text-emerald-600 print:text-black">{year.disbursed > 0 ? `+${formatCurrency(year.disbursed)}` : "—"}</TableCell>
+                  <TableCell className="text-right text-destructive/80">{formatCurrency(year.interest)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.principal)}</TableCell>
+                  <TableCell className="text-right text-primary">{year.prepaid > 0 ? formatCurrency(year.prepaid) : "—"}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(year.closingBalance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatCurrency(total(y => y.disbursed))}</TableCell>
+                <TableCell className="text-right">{formatCurrency(total(y => y.interest))}</TableCell>
+                <TableCell className="text-right">{formatCurrency(total(y => y.principal))}</TableCell>
+                <TableCell className="text-right">{formatCurrency(total(y => y.prepaid))}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
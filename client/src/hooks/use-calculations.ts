@@ -1,7 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, buildUrl, type InsertCalculation } from "@shared/routes";
+import { api, buildUrl } from "@shared/routes";
+import type { InsertCalculation } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
+// Carries the offending field from an `errorSchemas.validation` response so forms can show it inline.
+export class CalculationValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message);
+    this.name = "CalculationValidationError";
+  }
+}
+
 export function useCalculations() {
   return useQuery({
     queryKey: [api.calculations.list.path],
@@ -43,7 +52,7 @@ export function useCreateCalculation() {
       if (!res.ok) {
         if (res.status === 400) {
           const error = api.calculations.create.responses[400].parse(await res.json());
-          throw new Error(error.message);
+          throw new CalculationValidationError(error.message, error.field);
         }
         throw new Error("Failed to save calculation");
       }
@@ -66,6 +75,49 @@ export function useCreateCalculation() {
   });
 }
 
+export function useUpdateCalculation() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: { id: number } & InsertCalculation) => {
+      const url = buildUrl(api.calculations.update.path, { id });
+      const res = await fetch(url, {
+        method: api.calculations.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.calculations.update.responses[400].parse(await res.json());
+          throw new CalculationValidationError(error.message, error.field);
+        }
+        if (res.status === 404) throw new Error("Calculation not found");
+        throw new Error("Failed to update calculation");
+      }
+      return api.calculations.update.responses[200].parse(await res.json());
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [api.calculations.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.calculations.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.versions.list.path, id] });
+      toast({
+        title: "Success",
+        description: "Calculation updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 export function useDeleteCalculation() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -96,3 +148,56 @@ export function useDeleteCalculation() {
     },
   });
 }
+
+export function useCalculationVersions(id: number, enabled = true) {
+  return useQuery({
+    queryKey: [api.versions.list.path, id],
+    queryFn: async () => {
+      const url = buildUrl(api.versions.list.path, { id });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch version history");
+      return api.versions.list.responses[200].parse(await res.json());
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+export function useRestoreCalculationVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, version }: { id: number; version: number }) => {
+      const url = buildUrl(api.versions.restore.path, { id, version });
+      const res = await fetch(url, {
+        method: api.versions.restore.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.versions.restore.responses[400].parse(await res.json());
+          throw new CalculationValidationError(error.message, error.field);
+        }
+        throw new Error("Failed to restore version");
+      }
+      return api.versions.restore.responses[200].parse(await res.json());
+    },
+    onSuccess: (_, { id, version }) => {
+      queryClient.invalidateQueries({ queryKey: [api.calculations.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.calculations.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.versions.list.path, id] });
+      toast({
+        title: "Restored",
+        description: `Plan restored to version ${version}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,157 @@
+import { format } from "date-fns";
+import type { CalculationResult, PrepaymentStrategy, RepaymentMode, ScheduleEvent } from "@shared/calculator";
+import { DAY_COUNT_LABELS } from "@shared/day-count";
+import { summarizeByYear, YEAR_BASIS_LABELS, type YearBasis } from "@/lib/year-summary";
+
+type Cell = string | number;
+type Sheet = { name: string; rows: Cell[][] };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const isoDay = (date: Date) => format(date, "yyyy-MM-dd");
+const strategyLabel = (strategy?: PrepaymentStrategy) =>
+  strategy === "reduce-tenure" ? "Reduce tenure" : strategy === "reduce-emi" ? "Reduce EMI" : "";
+const repaymentLabel = (type?: RepaymentMode) => (type === "pre-emi" ? "Pre-EMI (interest only)" : "EMI");
+const eventLabel = (event: ScheduleEvent) =>
+  event.type === "rate"
+    ? `${isoDay(event.date)} rate ${event.rate}%`
+    : `${isoDay(event.date)} ${event.type === "disbursal" ? "disbursal" : "prepayment"} ${round(event.amount ?? 0)}`;
+
+// Same totals as the summary cards in LoanResults.
+function summarySheet({ summary, schedule }: CalculationResult): Sheet {
+  return {
+    name: "Summary",
+    rows: [
+      ["Metric", "Value"],
+      ["Total Amount Paid", round(summary.totalAmountPaid)],
+      ["Total Interest", round(summary.totalInterest)],
+      ...(summary.interestNotCharged > 0 ? [["Interest Not Charged", round(summary.interestNotCharged)]] : []),
+      ["Loan Disbursed", round(summary.totalDisbursed)],
+      ["Extra Principal Paid", round(summary.totalExtraPaid)],
+      ["Closure Date", isoDay(summary.closureDate)],
+      ["Months", schedule.length],
+      ["Months Saved", summary.monthsSaved],
+      ["Day Count", DAY_COUNT_LABELS[summary.dayCount]],
+    ],
+  };
+}
+
+function phasesSheet({ phases }: CalculationResult): Sheet {
+  return {
+    name: "Phases",
+    rows: [
+      ["Phase", "Start Date", "End Date", "Principal", "Disbursal", "Remaining Tenure (months)", "EMI", "Rate (%)", "Repayment", "After Prepayment"],
+      ...phases.map(p => [
+        p.phaseIndex + 1,
+        isoDay(p.startDate),
+        p.endDate ? isoDay(p.endDate) : "",
+        round(p.principalAtStart),
+        round(p.disbursalAdded),
+        round(p.remainingTenureMonths),
+        round(p.emi),
+        p.rate,
+        repaymentLabel(p.repaymentType),
+        strategyLabel(p.prepaymentStrategy),
+      ]),
+    ],
+  };
+}
+
+function scheduleSheet({ schedule }: CalculationResult): Sheet {
+  return {
+    name: "Schedule",
+    rows: [
+      ["Month", "Date", "Opening Principal", "Current EMI", "Paid EMI", "Interest", "Principal Paid", "Extra Paid", "Closing Principal", "Phase", "Rate (%)", "Repayment", "After Prepayment", "Unpaid Interest", "Events"],
+      ...schedule.map(row => [
+        row.month,
+        isoDay(row.date),
+        round(row.openingPrincipal),
+        round(row.theoreticalEmi),
+        round(row.emi),
+        round(row.interest),
+        round(row.principalPaid),
+        round(row.extraPaid),
+        round(row.closingPrincipal),
+        row.phase ?? "",
+        row.rate ?? "",
+        repaymentLabel(row.repaymentType),
+        strategyLabel(row.prepaymentStrategy),
+        row.interestShortfall ? round(row.interestShortfall) : "",
+        (row.events ?? []).map(eventLabel).join("; "),
+      ]),
+    ],
+  };
+}
+
+function yearsSheet(result: CalculationResult, basis: YearBasis): Sheet {
+  return {
+    name: basis === "financial" ? "Financial Years" : "Calendar Years",
+    rows: [
+      [YEAR_BASIS_LABELS[basis], "Months", "Opening Balance", "Disbursed", "Interest", "Principal Paid", "Prepaid", "Closing Balance"],
+      ...summarizeByYear(result, basis).map(year => [
+        year.label,
+        year.months,
+        round(year.openingBalance),
+        round(year.disbursed),
+        round(year.interest),
+        round(year.principal),
+        round(year.prepaid),
+        round(year.closingBalance),
+      ]),
+    ],
+  };
+}
+
+const buildSheets = (result: CalculationResult) => [
+  summarySheet(result),
+  phasesSheet(result),
+  yearsSheet(result, "financial"),
+  yearsSheet(result, "calendar"),
+  scheduleSheet(result),
+];
+
+const escapeCsv = (cell: Cell) => {
+  const text = String(cell);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// CSV has no sheets, so each table becomes a titled section separated by a blank line.
+function writeCsv(sheets: Sheet[], filename: string) {
+  const csv = sheets
+    .map(sheet => [[sheet.name], ...sheet.rows].map(row => row.map(escapeCsv).join(",")).join("\n"))
+    .join("\n\n");
+  download(new Blob([csv], { type: "text/csv;charset=utf-8" }), filename);
+}
+
+async function writeXlsx(sheets: Sheet[], filename: string) {
+  // Loaded on demand to keep the XLSX writer out of the main bundle.
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  const blob = await writeXlsxFile(sheets.map(sheet => ({ sheet: sheet.name, data: sheet.rows }))).toBlob();
+  download(blob, filename);
+}
+
+export function exportCsv(result: CalculationResult, filename = "loan-schedule.csv") {
+  writeCsv(buildSheets(result), filename);
+}
+
+export function exportXlsx(result: CalculationResult, filename = "loan-schedule.xlsx") {
+  return writeXlsx(buildSheets(result), filename);
+}
+
+// Just the year-wise totals, for ITR filing or matching a bank's interest certificate.
+export function exportYearsCsv(result: CalculationResult, basis: YearBasis) {
+  writeCsv([yearsSheet(result, basis)], `loan-${basis}-years.csv`);
+}
+
+export function exportYearsXlsx(result: CalculationResult, basis: YearBasis) {
+  return writeXlsx([yearsSheet(result, basis)], `loan-${basis}-years.xlsx`);
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { differenceInCalendarMonths } from "date-fns";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { goalSeek } from "./goal-seek";
+
+const LAKH = 100000;
+const start = new Date(2024, 0, 1);
+
+// ₹30L over 20 years at 9%, fully disbursed, with prepayments lowering the EMI by default
+const plan: LoanInputData = {
+  totalLoan: 30 * LAKH,
+  tenureYears: 20,
+  interestRate: 9,
+  startDate: start,
+  disbursals: [{ id: "d1", date: start, amount: 30 * LAKH }],
+  rateChanges: [],
+  extraPayments: [],
+  recurringPayments: [],
+  fullEmiAtStart: 0,
+  emiStepUp: null,
+  repaymentMode: "emi",
+  emiStartDate: null,
+  prepaymentStrategy: "reduce-emi",
+  dayCount: "actual-365",
+  shortfallPolicy: "capitalize",
+  floatingRate: null,
+};
+
+describe("goalSeek", () => {
+  it("meets a closure-date goal with a modest lump sum", () => {
+    const target = new Date(2039, 0, 1);
+    const solution = goalSeek(plan, { variable: "lump-sum", paymentDate: new Date(2025, 0, 10), target: { type: "closure-date", date: target } });
+    assert.ok(solution.feasible);
+    // Five years off a twenty-year loan takes a fraction of the balance, not all of it
+    assert.ok(solution.value > 0 && solution.value < 10 * LAKH, `lump sum ${solution.value}`);
+    assert.ok(differenceInCalendarMonths(solution.result.summary.closureDate, target) <= 0);
+    assert.equal(solution.inputs.extraPayments.at(-1)?.strategy, "reduce-tenure");
+  });
+
+  it("meets a tenure goal with a modest monthly prepayment", () => {
+    const solution = goalSeek(plan, { variable: "recurring", paymentDate: new Date(2024, 1, 1), target: { type: "tenure", months: 180 } });
+    assert.ok(solution.feasible);
+    assert.ok(solution.value > 0 && solution.value < 10000, `monthly prepayment ${solution.value}`);
+    assert.ok(differenceInCalendarMonths(solution.result.summary.closureDate, start) <= 180);
+  });
+
+  it("keeps the plan's own strategy for interest targets", () => {
+    const solution = goalSeek(plan, { variable: "lump-sum", paymentDate: new Date(2025, 0, 10), target: { type: "interest-saved", amount: 5 * LAKH } });
+    assert.ok(solution.feasible);
+    assert.equal(solution.inputs.extraPayments.at(-1)?.strategy, undefined);
+  });
+});
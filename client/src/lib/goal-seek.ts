@@ -0,0 +1,112 @@
+import { differenceInCalendarMonths } from "date-fns";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { calculateFromInputs } from "@/lib/plans";
+import type { CalculationResult, PrepaymentStrategy } from "@shared/calculator";
+
+// What the solver may change: the EMI paid from the start, a one-time prepayment, or a monthly prepayment.
+export type GoalVariable = "emi" | "lump-sum" | "recurring";
+
+export type GoalTarget =
+  | { type: "closure-date"; date: Date }
+  | { type: "tenure"; months: number }
+  | { type: "total-interest"; amount: number }
+  | { type: "interest-saved"; amount: number };
+
+export interface GoalSeekRequest {
+  variable: GoalVariable;
+  paymentDate: Date; // When the one-time prepayment is made, or the monthly one starts
+  target: GoalTarget;
+}
+
+export interface GoalSeekResult {
+  feasible: boolean;
+  value: number; // Smallest amount that meets the target, rounded up to the rupee
+  inputs: LoanInputData;
+  result: CalculationResult;
+  baseline: CalculationResult;
+}
+
+const TOLERANCE = 1; // Rupees
+
+// Applies a candidate amount for the chosen variable on top of the plan. Prepayments use `strategy`,
+// or the plan's own when it is omitted.
+export function withGoalVariable(
+  data: LoanInputData,
+  variable: GoalVariable,
+  paymentDate: Date,
+  amount: number,
+  strategy?: PrepaymentStrategy
+): LoanInputData {
+  if (variable === "emi") return { ...data, fullEmiAtStart: amount };
+  if (amount <= 0) return data;
+  if (variable === "lump-sum") {
+    return { ...data, extraPayments: [...data.extraPayments, { id: "goal-lump-sum", date: paymentDate, amount, strategy }] };
+  }
+  const rule = { id: "goal-recurring", frequency: "monthly" as const, startDate: paymentDate, endDate: null, amount, stepUpPercent: 0, strategy };
+  return { ...data, recurringPayments: [...data.recurringPayments, rule] };
+}
+
+// Closing earlier needs the EMI kept up after each prepayment; lowering it instead would stretch the
+// balance over the rest of the tenure and no prepayment short of the whole balance would move the date.
+const strategyFor = (target: GoalTarget): PrepaymentStrategy | undefined =>
+  target.type === "closure-date" || target.type === "tenure" ? "reduce-tenure" : undefined;
+
+function meetsTarget(target: GoalTarget, result: CalculationResult, baseline: CalculationResult, startDate: Date): boolean {
+  const { summary } = result;
+  switch (target.type) {
+    case "closure-date":
+      return differenceInCalendarMonths(summary.closureDate, target.date) <= 0;
+    case "tenure":
+      return differenceInCalendarMonths(summary.closureDate, startDate) <= target.months;
+    case "total-interest":
+      return summary.totalInterest <= target.amount;
+    case "interest-saved":
+      return baseline.summary.totalInterest - summary.totalInterest >= target.amount;
+  }
+}
+
+// Upper bound for the search: paying the whole sanctioned amount at once always closes the loan.
+function searchCeiling(data: LoanInputData, variable: GoalVariable): number {
+  return variable === "recurring" ? data.totalLoan / 2 : data.totalLoan;
+}
+
+/**
+ * Bisects the amount for `variable` until the plan just meets the target. Every target improves as the
+ * amount grows (earlier closure, less interest), so the smallest passing amount is well defined.
+ */
+export function goalSeek(data: LoanInputData, request: GoalSeekRequest): GoalSeekResult {
+  const baseline = calculateFromInputs(data);
+  const strategy = strategyFor(request.target);
+  const evaluate = (amount: number) => {
+    const inputs = withGoalVariable(data, request.variable, request.paymentDate, amount, strategy);
+    const result = calculateFromInputs(inputs);
+    return { inputs, result, ok: meetsTarget(request.target, result, baseline, data.startDate) };
+  };
+
+  // For the EMI, zero means the plan's own minimum EMI
+  const atZero = evaluate(0);
+  if (atZero.ok) return { feasible: true, value: 0, inputs: atZero.inputs, result: atZero.result, baseline };
+
+  let high = searchCeiling(data, request.variable);
+  let best = evaluate(high);
+  if (!best.ok) return { feasible: false, value: high, inputs: best.inputs, result: best.result, baseline };
+
+  let low = 0;
+  let value = high;
+  while (high - low > TOLERANCE) {
+    const mid = (low + high) / 2;
+    const attempt = evaluate(mid);
+    if (attempt.ok) {
+      high = mid;
+      value = mid;
+      best = attempt;
+    } else {
+      low = mid;
+    }
+  }
+
+  // Report a whole-rupee amount that still meets the target
+  const rounded = evaluate(Math.ceil(value));
+  if (rounded.ok) best = rounded;
+  return { feasible: true, value: rounded.ok ? Math.ceil(value) : value, inputs: best.inputs, result: best.result, baseline };
+}
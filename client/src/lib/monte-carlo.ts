@@ -0,0 +1,164 @@
+import { addMonths } from "date-fns";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { calculateFromInputs } from "@/lib/plans";
+import { deriveRateChanges } from "@shared/floating-rate";
+
+export interface MonteCarloSettings {
+  paths: number;
+  seed: number;
+  volatility: number; // Annual standard deviation of the rate, in percentage points
+  meanReversion: number; // Speed (per year) at which the rate is pulled back to the long-run level
+  longRunRate: number | null; // Level rates revert to; the rate in force at `startDate` when null
+  resetMonths: number; // The simulated rate only moves on these reset intervals
+  startDate: Date; // Rates follow the plan until here, then the simulation takes over
+}
+
+export interface Bands<T = number> {
+  p10: T;
+  p50: T;
+  p90: T;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  startRate: number;
+  longRunRate: number;
+  totalInterest: Bands;
+  closureDate: Bands<Date>;
+  histogram: { from: number; to: number; count: number }[];
+  principal: ({ date: Date } & Bands)[];
+}
+
+export type MonteCarloMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "result"; result: MonteCarloResult }
+  | { type: "error"; message: string };
+
+export const MAX_PATHS = 5000;
+const HISTOGRAM_BINS = 20;
+
+// mulberry32: tiny, fast and good enough for simulation; the same seed always gives the same stream.
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller).
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Linear interpolation between closest ranks; `sorted` must be ascending.
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+const bands = (values: number[]): Bands => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+};
+
+// The rate the plan itself charges on `date`, from its own (non-simulated) schedule.
+function rateOn(data: LoanInputData, date: Date): number {
+  const { schedule } = calculateFromInputs(data);
+  const row = schedule.filter(r => r.date.getTime() <= date.getTime()).pop() ?? schedule[0];
+  return row?.rate ?? data.interestRate;
+}
+
+/**
+ * Discretized Ornstein-Uhlenbeck (Vasicek) path: at each reset the rate moves
+ * κ(θ - r)Δt plus σ√Δt of noise, floored at zero.
+ */
+function simulateRatePath(
+  random: () => number,
+  settings: MonteCarloSettings,
+  startRate: number,
+  longRunRate: number,
+  endDate: Date
+): { date: Date; rate: number }[] {
+  const dt = settings.resetMonths / 12;
+  const changes: { date: Date; rate: number }[] = [];
+  let rate = startRate;
+  for (let i = 1; ; i++) {
+    const date = addMonths(settings.startDate, i * settings.resetMonths);
+    if (date.getTime() >= endDate.getTime()) break;
+    rate += settings.meanReversion * (longRunRate - rate) * dt + settings.volatility * Math.sqrt(dt) * gaussian(random);
+    rate = Math.max(0, rate);
+    changes.push({ date, rate: Math.round(rate * 100) / 100 });
+  }
+  return changes;
+}
+
+export function runMonteCarlo(
+  data: LoanInputData,
+  settings: MonteCarloSettings,
+  onProgress?: (done: number, total: number) => void
+): MonteCarloResult {
+  const random = seededRandom(settings.seed);
+  const total = Math.min(MAX_PATHS, Math.max(1, Math.round(settings.paths)));
+  const startRate = rateOn(data, settings.startDate);
+  const longRunRate = settings.longRunRate ?? startRate;
+  const endDate = addMonths(data.startDate, data.tenureYears * 12);
+  // The plan's own rates hold until the start date (derived from the benchmark for floating loans);
+  // the simulated path replaces everything after it
+  const planRates = data.floatingRate
+    ? deriveRateChanges(data.floatingRate, data.startDate, endDate, data.interestRate)
+    : { initialRate: data.interestRate, changes: data.rateChanges };
+  const keptChanges = planRates.changes
+    .filter(r => r.date.getTime() < settings.startDate.getTime())
+    .map((r, n) => ({ id: r.id ?? `plan-${n}`, date: r.date, rate: r.rate }));
+
+  const interest: number[] = [];
+  const closures: number[] = [];
+  const principalByPath: number[][] = [];
+  let longest: Date[] = [];
+
+  for (let i = 0; i < total; i++) {
+    const simulated = simulateRatePath(random, settings, startRate, longRunRate, endDate);
+    const { schedule, summary } = calculateFromInputs({
+      ...data,
+      floatingRate: null,
+      interestRate: planRates.initialRate,
+      rateChanges: [
+        ...keptChanges,
+        { id: "sim-start", date: settings.startDate, rate: startRate },
+        ...simulated.map((change, n) => ({ id: `sim-${n}`, ...change })),
+      ],
+    });
+    interest.push(summary.totalInterest);
+    closures.push(summary.closureDate.getTime());
+    principalByPath.push(schedule.map(row => row.openingPrincipal));
+    if (schedule.length > longest.length) longest = schedule.map(row => row.date);
+    if (onProgress && (i + 1) % 50 === 0) onProgress(i + 1, total);
+  }
+
+  const low = Math.min(...interest);
+  const width = (Math.max(...interest) - low) / HISTOGRAM_BINS || 1;
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({ from: low + bin * width, to: low + (bin + 1) * width, count: 0 }));
+  interest.forEach(value => histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - low) / width))].count++);
+
+  const closureBands = bands(closures);
+
+  return {
+    paths: total,
+    startRate,
+    longRunRate,
+    totalInterest: bands(interest),
+    closureDate: { p10: new Date(closureBands.p10), p50: new Date(closureBands.p50), p90: new Date(closureBands.p90) },
+    histogram,
+    // Paths that close early count as zero outstanding for the remaining months
+    principal: longest.map((date, month) => ({ date, ...bands(principalByPath.map(path => path[month] ?? 0)) })),
+  };
+}
@@ -0,0 +1,14 @@
+import { runMonteCarlo, type MonteCarloMessage, type MonteCarloSettings } from "@/lib/monte-carlo";
+import type { LoanInputData } from "@/components/LoanInputs";
+
+// Runs the simulation off the main thread. Dates survive postMessage's structured clone as Dates.
+const post = (message: MonteCarloMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<{ inputs: LoanInputData; settings: MonteCarloSettings }>) => {
+  try {
+    const result = runMonteCarlo(event.data.inputs, event.data.settings, (done, total) => post({ type: "progress", done, total }));
+    post({ type: "result", result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Simulation failed" });
+  }
+};
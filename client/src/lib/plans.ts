@@ -0,0 +1,147 @@
+import type { ActualPayment, Calculation, CalculationSnapshot, InsertCalculation } from "@shared/schema";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { calculateLoan, type CalculationResult } from "@shared/calculator";
+import { DEFAULT_DAY_COUNT, isDayCountConvention } from "@shared/day-count";
+import { validatePlan, type PlanValidation } from "@shared/validation";
+import { newId } from "@/lib/utils";
+
+// Saved plans come back as JSON, so dates are ISO strings and numeric columns are strings.
+// Events keep their saved ids; plans saved before ids were stored get fresh ones.
+export function toLoanInputData(calc: Calculation | CalculationSnapshot): LoanInputData {
+  return {
+    totalLoan: parseFloat(calc.totalLoanAmount),
+    tenureYears: parseFloat(calc.loanTenureYears),
+    interestRate: parseFloat(calc.interestRate),
+    startDate: new Date(calc.startDate),
+    disbursals: calc.disbursals.map(d => ({ id: d.id ?? newId(), date: new Date(d.date), amount: d.amount })),
+    rateChanges: (calc.interestRateChanges || []).map(r => ({ id: r.id ?? newId(), date: new Date(r.date), rate: r.rate })),
+    extraPayments: (calc.extraPayments || []).map(p => ({ id: p.id ?? newId(), date: new Date(p.date), amount: p.amount, strategy: p.strategy })),
+    recurringPayments: (calc.recurringPayments || []).map(p => ({
+      id: p.id ?? newId(),
+      frequency: p.frequency,
+      startDate: new Date(p.startDate),
+      endDate: p.endDate ? new Date(p.endDate) : null,
+      amount: p.amount,
+      stepUpPercent: p.stepUpPercent ?? 0,
+      strategy: p.strategy,
+    })),
+    fullEmiAtStart: parseFloat(calc.fullEmiAtStart || "0") || 0,
+    emiStepUp: calc.emiStepUp ?? null,
+    repaymentMode: calc.repaymentMode === "pre-emi" ? "pre-emi" : "emi",
+    emiStartDate: calc.emiStartDate ? new Date(calc.emiStartDate) : null,
+    prepaymentStrategy: calc.prepaymentStrategy === "reduce-tenure" ? "reduce-tenure" : "reduce-emi",
+    // Plans saved before the setting existed were computed with the old mix; Actual/365 is the closest match
+    dayCount: isDayCountConvention(calc.dayCount) ? calc.dayCount : DEFAULT_DAY_COUNT,
+    shortfallPolicy: calc.shortfallPolicy === "flag" ? "flag" : "capitalize",
+    floatingRate: calc.floatingRate
+      ? {
+          ...calc.floatingRate,
+          benchmarkRates: calc.floatingRate.benchmarkRates.map(r => ({ id: r.id ?? newId(), date: new Date(r.date), rate: r.rate })),
+        }
+      : null,
+  };
+}
+
+export function calculateFromInputs(data: LoanInputData): CalculationResult {
+  return calculateLoan(
+    data.totalLoan,
+    data.tenureYears,
+    data.interestRate,
+    data.startDate,
+    data.disbursals,
+    data.rateChanges,
+    data.extraPayments,
+    data.fullEmiAtStart,
+    {
+      repaymentMode: data.repaymentMode,
+      emiStartDate: data.emiStartDate,
+      prepaymentStrategy: data.prepaymentStrategy,
+      dayCount: data.dayCount,
+      shortfallPolicy: data.shortfallPolicy,
+      floatingRate: data.floatingRate,
+      recurringPayments: data.recurringPayments,
+      emiStepUp: data.emiStepUp,
+    }
+  );
+}
+
+export function toInsertCalculation(name: string, data: LoanInputData, actuals: ActualPayment[] = []): InsertCalculation {
+  return {
+    name,
+    totalLoanAmount: String(data.totalLoan),
+    loanTenureYears: String(data.tenureYears),
+    interestRate: String(data.interestRate),
+    startDate: data.startDate,
+    disbursals: data.disbursals.map(d => ({ id: d.id, date: d.date.toISOString(), amount: d.amount })),
+    interestRateChanges: data.rateChanges.map(r => ({ id: r.id, date: r.date.toISOString(), rate: r.rate })),
+    extraPayments: data.extraPayments.map(p => ({ id: p.id, date: p.date.toISOString(), amount: p.amount, strategy: p.strategy })),
+    recurringPayments: data.recurringPayments.map(p => ({
+      id: p.id,
+      frequency: p.frequency,
+      startDate: p.startDate.toISOString(),
+      endDate: p.endDate ? p.endDate.toISOString() : null,
+      amount: p.amount,
+      stepUpPercent: p.stepUpPercent,
+      strategy: p.strategy,
+    })),
+    fullEmiAtStart: String(data.fullEmiAtStart),
+    emiStepUp: data.emiStepUp,
+    repaymentMode: data.repaymentMode,
+    emiStartDate: data.repaymentMode === "pre-emi" ? data.emiStartDate : null,
+    prepaymentStrategy: data.prepaymentStrategy,
+    dayCount: data.dayCount,
+    shortfallPolicy: data.shortfallPolicy,
+    floatingRate: data.floatingRate
+      ? {
+          benchmark: data.floatingRate.benchmark,
+          spread: data.floatingRate.spread,
+          resetMonths: data.floatingRate.resetMonths,
+          benchmarkRates: data.floatingRate.benchmarkRates.map(r => ({ id: r.id, date: r.date.toISOString(), rate: r.rate })),
+        }
+      : null,
+    actuals,
+  };
+}
+
+// Same rules the API applies on save, so the form can show them before the user gets that far.
+export function validateInputs(data: LoanInputData): PlanValidation {
+  return validatePlan(toInsertCalculation("", data));
+}
+
+const fieldLabels: Record<string, string> = {
+  name: "Plan name",
+  totalLoanAmount: "Approved loan",
+  loanTenureYears: "Tenure",
+  interestRate: "Initial rate",
+  startDate: "Start date",
+  disbursals: "Disbursal",
+  interestRateChanges: "Rate change",
+  extraPayments: "Extra payment",
+  recurringPayments: "Recurring prepayment",
+  actuals: "Actual payment",
+  fullEmiAtStart: "Full EMI",
+  emiStepUp: "EMI step-up",
+  repaymentMode: "Repayment mode",
+  emiStartDate: "EMI start date",
+  prepaymentStrategy: "After prepayment",
+  dayCount: "Day count",
+  shortfallPolicy: "Unpaid interest",
+  floatingRate: "Floating rate",
+  benchmarkRates: "Benchmark rate",
+  resetMonths: "reset frequency",
+  endDate: "End date",
+  stepUpPercent: "Step-up",
+};
+
+// Turns a validation path such as "disbursals.2.amount" into "Disbursal 3 amount"; a nested list
+// is named by its own label, so "floatingRate.benchmarkRates.0.date" reads "Benchmark rate 1 date".
+export function describeField(field: string): string {
+  const parts = field.split(".");
+  const indexAt = parts.findIndex(part => /^\d+$/.test(part));
+  if (indexAt > 0) {
+    const label = fieldLabels[parts[indexAt - 1]] || parts[indexAt - 1];
+    const rest = parts.slice(indexAt + 1).map(part => fieldLabels[part]?.toLowerCase() ?? part);
+    return [`${label} ${Number(parts[indexAt]) + 1}`, ...rest].join(" ");
+  }
+  return parts.map(part => fieldLabels[part] || part).join(" ");
+}
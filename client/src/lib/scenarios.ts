@@ -0,0 +1,50 @@
+import type { CalculationSnapshot } from "@shared/schema";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { toInsertCalculation, toLoanInputData } from "@/lib/plans";
+import { newId } from "@/lib/utils";
+
+// Unsaved scenarios queued for /compare. They live for the browser session only.
+const STORAGE_KEY = "fincalc:compare-scenarios";
+
+export interface Scenario {
+  key: string;
+  name: string;
+  inputs: LoanInputData;
+}
+
+interface StoredScenario {
+  key: string;
+  snapshot: CalculationSnapshot;
+}
+
+function readStored(): StoredScenario[] {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function writeStored(items: StoredScenario[]) {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export function getScenarios(): Scenario[] {
+  return readStored().map(({ key, snapshot }) => ({
+    key,
+    name: snapshot.name,
+    inputs: toLoanInputData(snapshot),
+  }));
+}
+
+export function addScenario(name: string, inputs: LoanInputData): Scenario {
+  const key = newId();
+  // Round-tripping through JSON turns the insert payload's Date into the snapshot's ISO string.
+  const snapshot: CalculationSnapshot = JSON.parse(JSON.stringify(toInsertCalculation(name, inputs)));
+  writeStored([...readStored(), { key, snapshot }]);
+  return { key, name, inputs };
+}
+
+export function removeScenario(key: string) {
+  writeStored(readStored().filter(s => s.key !== key));
+}
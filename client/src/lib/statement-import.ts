@@ -0,0 +1,153 @@
+import { parse, isValid } from "date-fns";
+
+export type ImportKind = "disbursal" | "rate" | "extra" | "ignore";
+
+export interface StatementTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Column index per field; -1 means the statement has no such column.
+export interface ColumnMapping {
+  date: number;
+  description: number;
+  debit: number;
+  credit: number;
+}
+
+export interface ImportedRow {
+  index: number;
+  date: Date | null;
+  description: string;
+  debit: number | null;
+  credit: number | null;
+  kind: ImportKind;
+  amount: number | null;
+  rate: number | null;
+  errors: string[];
+}
+
+// Indian statements put the day first; month-first only applies when picked explicitly or nothing else fits.
+const DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "dd/MM/yy", "dd-MM-yy", "dd.MM.yy", "dd-MMM-yy", "dd MMM yy",
+  "dd/MM/yyyy", "dd-MM-yyyy", "dd.MM.yyyy", "dd-MMM-yyyy", "dd MMM yyyy",
+  "MM/dd/yyyy",
+];
+
+// "auto" tries every format above in order; the rest are offered in the import dialog.
+export const DATE_FORMAT_OPTIONS = ["auto", "dd/MM/yyyy", "dd-MM-yyyy", "dd-MMM-yyyy", "dd/MM/yy", "MM/dd/yyyy", "yyyy-MM-dd"] as const;
+export type DateFormatOption = (typeof DATE_FORMAT_OPTIONS)[number];
+
+const isCsv = (file: File) => /\.csv$/i.test(file.name) || file.type === "text/csv";
+
+const toCell = (cell: unknown) => {
+  if (cell == null) return "";
+  // XLSX date cells come back as UTC midnight; hand them on as ISO dates for parseStatementDate
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+export async function readStatementFile(file: File): Promise<StatementTable> {
+  // The parsers are loaded on demand like the exporter's writer. CSV cells stay as typed, so dates
+  // are only ever interpreted by parseStatementDate; XLSX is read from the first sheet.
+  let table: unknown[][];
+  if (isCsv(file)) {
+    const { default: Papa } = await import("papaparse");
+    table = Papa.parse<string[]>(await file.text(), { skipEmptyLines: "greedy" }).data;
+  } else {
+    const { readSheet } = await import("read-excel-file/browser");
+    table = await readSheet(file);
+  }
+  const [headers = [], ...rows] = table
+    .map(row => Array.from(row, toCell))
+    .filter(row => row.some(cell => cell !== ""));
+  return { headers, rows };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => headers.findIndex(h => pattern.test(h.toLowerCase()));
+  return {
+    date: find(/date/),
+    description: find(/desc|narration|particular|remark|detail/),
+    debit: find(/debit|withdrawal|\bdr\b/),
+    credit: find(/credit|deposit|\bcr\b/),
+  };
+}
+
+export function parseStatementDate(value: string, dateFormat: DateFormatOption = "auto"): Date | null {
+  // date-fns accepts two digits for "yyyy" (year 0024), so the year's width must match the pattern's
+  const fourDigitYear = /\d{4}/.test(value);
+  for (const pattern of dateFormat === "auto" ? DATE_FORMATS : [dateFormat]) {
+    if (pattern.includes("yyyy") !== fourDigitYear) continue;
+    const date = parse(value.trim(), pattern, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+}
+
+export function parseAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const cleaned = value.replace(/[₹,\s]|Rs\.?|INR|Dr|Cr/gi, "");
+  if (!cleaned) return null;
+  const amount = Math.abs(parseFloat(cleaned));
+  return isNaN(amount) ? null : amount;
+}
+
+const parseRate = (description: string) => {
+  const match = description.match(/(\d{1,2}(?:\.\d+)?)\s*%/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+// Loan account statements debit disbursals and credit repayments; EMIs and interest are left out.
+function guessKind(description: string, debit: number | null, credit: number | null): ImportKind {
+  const text = description.toLowerCase();
+  if (/\b(roi|rate)\b|revis|reset/.test(text)) return "rate";
+  if (/\bemi\b|interest|\bint\b|charge|fee/.test(text)) return "ignore";
+  if (/disb|tranche|release/.test(text)) return "disbursal";
+  if (/prepay|pre-pay|part.?pay|extra|lump/.test(text)) return "extra";
+  if (debit && !credit) return "disbursal";
+  if (credit && !debit) return "extra";
+  return "ignore";
+}
+
+export function validateImportedRow(row: ImportedRow): ImportedRow {
+  const errors: string[] = [];
+  if (row.kind !== "ignore") {
+    if (!row.date) errors.push("Unrecognised date");
+    if (row.kind === "rate") {
+      if (row.rate == null) errors.push("No rate (e.g. 8.5%) found in description");
+      else if (row.rate <= 0 || row.rate > 30) errors.push("Rate must be between 0% and 30%");
+    } else if (!row.amount || row.amount <= 0) {
+      errors.push("Amount is missing");
+    }
+  }
+  return { ...row, errors };
+}
+
+export function withKind(row: ImportedRow, kind: ImportKind): ImportedRow {
+  const amount = kind === "disbursal" ? (row.debit ?? row.credit) : kind === "extra" ? (row.credit ?? row.debit) : null;
+  return validateImportedRow({ ...row, kind, amount });
+}
+
+export function classifyRows(table: StatementTable, mapping: ColumnMapping, dateFormat: DateFormatOption = "auto"): ImportedRow[] {
+  const cell = (row: string[], column: number) => (column >= 0 ? row[column] : undefined);
+  return table.rows.map((row, index) => {
+    const description = cell(row, mapping.description) || "";
+    const debit = parseAmount(cell(row, mapping.debit));
+    const credit = parseAmount(cell(row, mapping.credit));
+    const dateValue = cell(row, mapping.date);
+    const base: ImportedRow = {
+      index,
+      date: dateValue ? parseStatementDate(dateValue, dateFormat) : null,
+      description,
+      debit,
+      credit,
+      kind: "ignore",
+      amount: null,
+      rate: parseRate(description),
+      errors: [],
+    };
+    return withKind(base, guessKind(description, debit, credit));
+  });
+}
@@ -0,0 +1,79 @@
+import type { LoanInputData } from "@/components/LoanInputs";
+import { calculateFromInputs } from "@/lib/plans";
+import { newId } from "@/lib/utils";
+
+// A step in a rate path: from `date` on, every rate is `shiftBps` basis points above the plan's own.
+export interface RateShock {
+  date: Date;
+  shiftBps: number;
+}
+
+export interface RatePath {
+  key: string;
+  label: string;
+  shocks: RateShock[];
+}
+
+export interface StressOutcome {
+  key: string;
+  label: string;
+  totalInterest: number;
+  peakEmi: number; // Highest EMI actually paid, prepayments excluded
+  closureDate: Date;
+  months: number;
+}
+
+type RatePoint = { id: string; date: Date; rate: number };
+
+// Layers the shocks over a rate series, where each point is in force from its date. Shocks that start
+// before the series apply from its first point.
+export function shiftRateSeries(series: RatePoint[], shocks: RateShock[]): RatePoint[] {
+  const sortedSeries = [...series].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const sortedShocks = [...shocks].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const inForce = <T extends { date: Date }>(items: T[], date: Date) =>
+    items.filter(item => item.date.getTime() <= date.getTime()).pop();
+
+  const dates = Array.from(new Set([...sortedSeries, ...sortedShocks].map(item => item.date.getTime())))
+    .sort((a, b) => a - b)
+    .map(time => new Date(time));
+
+  const shifted: RatePoint[] = [];
+  for (const date of dates) {
+    const base = inForce(sortedSeries, date);
+    if (!base) continue;
+    const shift = (inForce(sortedShocks, date)?.shiftBps ?? 0) / 100;
+    shifted.push({ id: newId(), date, rate: Math.max(0, base.rate + shift) });
+  }
+  return shifted;
+}
+
+// Applies a path to the plan's own rates: the benchmark series for floating loans, otherwise the
+// initial rate and its hand-entered changes.
+export function applyRatePath(data: LoanInputData, path: RatePath): LoanInputData {
+  if (path.shocks.length === 0) return data;
+  if (data.floatingRate) {
+    return {
+      ...data,
+      floatingRate: { ...data.floatingRate, benchmarkRates: shiftRateSeries(data.floatingRate.benchmarkRates, path.shocks) },
+    };
+  }
+  const [initial, ...changes] = shiftRateSeries(
+    [{ id: "initial", date: data.startDate, rate: data.interestRate }, ...data.rateChanges],
+    path.shocks
+  );
+  return { ...data, interestRate: initial.rate, rateChanges: changes };
+}
+
+export function runStressTest(data: LoanInputData, paths: RatePath[]): StressOutcome[] {
+  return paths.map(path => {
+    const { schedule, summary } = calculateFromInputs(applyRatePath(data, path));
+    return {
+      key: path.key,
+      label: path.label,
+      totalInterest: summary.totalInterest,
+      peakEmi: schedule.reduce((peak, row) => Math.max(peak, row.emi), 0),
+      closureDate: summary.closureDate,
+      months: schedule.length,
+    };
+  });
+}
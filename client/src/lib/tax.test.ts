@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateLoan } from "@shared/calculator";
+import { calculateTaxBenefit, DEFAULT_TAX_SETTINGS } from "./tax";
+
+const LAKH = 100000;
+
+const assertClose = (actual: number, expected: number, tolerance = 0.01) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+
+// Periods run from the 15th, so the first one starts in FY 2023-24 and is debited on 15 April
+const start = new Date(2024, 2, 15);
+const result = calculateLoan(30 * LAKH, 20, 9, start, [{ date: start, amount: 30 * LAKH }], [], [
+  // Made in March 2025, in the period debited on 15 April 2025
+  { date: new Date(2025, 2, 20), amount: 2 * LAKH },
+], 0);
+const settings = { ...DEFAULT_TAX_SETTINGS, possessionDate: null };
+
+describe("calculateTaxBenefit", () => {
+  it("counts interest in the financial year it was debited", () => {
+    const { years } = calculateTaxBenefit(result, settings);
+    assert.equal(years[0].label, "FY 2024-25");
+    assertClose(years[0].interestPaid, result.schedule.slice(0, 12).reduce((sum, row) => sum + row.interest, 0));
+    assertClose(years.reduce((sum, y) => sum + y.interestPaid, 0), result.summary.totalInterest, 0.1);
+  });
+
+  it("counts a prepayment in the financial year it was made", () => {
+    const [fy25, fy26] = calculateTaxBenefit(result, settings).years;
+    const repaid = (from: number, to: number) =>
+      result.schedule.slice(from, to).reduce((sum, row) => sum + row.openingPrincipal - row.closingPrincipal, 0);
+    // The thirteenth row carries the prepayment: it stays in FY 2024-25 while that row's EMI moves on
+    assertClose(fy25.principalPaid, repaid(0, 12) + 2 * LAKH, 0.1);
+    assertClose(fy26.principalPaid, repaid(12, 24) - 2 * LAKH, 0.1);
+  });
+
+  it("defers interest debited before the financial year of possession", () => {
+    // Possession on 10 April 2025 falls in FY 2025-26, so everything debited in FY 2024-25 is pre-construction interest
+    const deferred = calculateTaxBenefit(result, { ...settings, possessionDate: new Date(2025, 3, 10) });
+    assert.equal(deferred.years[0].interestDeduction, 0);
+    assertClose(deferred.preConstructionInterest, deferred.years[0].interestPaid);
+    assert.ok(deferred.years[1].preConstructionClaim > 0);
+  });
+});
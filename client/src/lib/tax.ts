@@ -0,0 +1,115 @@
+import type { CalculationResult } from "@shared/calculator";
+import { debitDateOf, emiPrincipalOf, financialYearOf, prepaymentsOf, yearLabel } from "@/lib/year-summary";
+
+// Old-regime deductions for a self-occupied home. The new regime allows neither, so set the caps to zero there.
+export interface TaxSettings {
+  slabRate: number; // Marginal rate including cess, in percent
+  interestCap: number; // Section 24(b), per financial year
+  principalCap: number; // Section 80C, per financial year
+  other80C: number; // Room under 80C already taken by PF, insurance, ELSS and the like
+  possessionDate: Date | null; // Construction completion; null for a ready property
+}
+
+export const DEFAULT_TAX_SETTINGS: Omit<TaxSettings, "possessionDate"> = {
+  slabRate: 31.2,
+  interestCap: 200000,
+  principalCap: 150000,
+  other80C: 0,
+};
+
+// Interest paid before the possession year is claimed in this many equal parts, from that year on
+export const PRE_CONSTRUCTION_INSTALMENTS = 5;
+
+export interface TaxYear {
+  startYear: number; // FY 2024-25 starts in 2024
+  label: string;
+  interestPaid: number;
+  principalPaid: number;
+  preConstructionClaim: number; // This year's share of pre-construction interest, before the cap
+  interestDeduction: number; // 24(b): current interest plus the pre-construction share, capped
+  principalDeduction: number; // 80C, capped
+  taxSaved: number;
+  netInterestCost: number; // Interest paid less the tax it saved
+}
+
+export interface TaxSummary {
+  years: TaxYear[];
+  preConstructionInterest: number;
+  totalInterest: number;
+  totalTaxSaved: number;
+  interestTaxSaved: number;
+  netInterestCost: number;
+}
+
+/**
+ * Groups what was paid by financial year, interest and EMI principal by the date they were debited and
+ * prepayments by the date they were made, and applies Section 24(b) and 80C. Interest and principal paid
+ * before the financial year of possession earn nothing that year; that interest is instead spread over
+ * the five years from possession, sharing the 24(b) cap with the interest of those years.
+ */
+export function calculateTaxBenefit(result: CalculationResult, settings: TaxSettings): TaxSummary {
+  const capitalized = result.summary.shortfallPolicy === "capitalize";
+  const paid = new Map<number, { interest: number; principal: number }>();
+  const entryFor = (date: Date) => {
+    const year = financialYearOf(date);
+    const entry = paid.get(year) ?? { interest: 0, principal: 0 };
+    paid.set(year, entry);
+    return entry;
+  };
+  // Interest and EMI principal are paid when debited, prepayments on the day they are made
+  for (const row of result.schedule) {
+    const debited = entryFor(debitDateOf(row));
+    // Only what was actually paid counts; unpaid interest is either added to the balance or written off
+    debited.interest += row.interest - (row.interestShortfall ?? 0);
+    debited.principal += emiPrincipalOf(row, capitalized);
+    for (const prepayment of prepaymentsOf(row, capitalized)) {
+      entryFor(prepayment.date).principal += prepayment.amount;
+    }
+  }
+  if (paid.size === 0) {
+    return { years: [], preConstructionInterest: 0, totalInterest: 0, totalTaxSaved: 0, interestTaxSaved: 0, netInterestCost: 0 };
+  }
+
+  const firstYear = Math.min(...Array.from(paid.keys()));
+  const possessionYear = settings.possessionDate ? Math.max(firstYear, financialYearOf(settings.possessionDate)) : firstYear;
+  let preConstructionInterest = 0;
+  paid.forEach((entry, year) => {
+    if (year < possessionYear) preConstructionInterest += entry.interest;
+  });
+  const instalment = preConstructionInterest / PRE_CONSTRUCTION_INSTALMENTS;
+
+  const lastYear = Math.max(...Array.from(paid.keys()), preConstructionInterest > 0 ? possessionYear + PRE_CONSTRUCTION_INSTALMENTS - 1 : 0);
+  const principalRoom = Math.max(0, settings.principalCap - settings.other80C);
+  const rate = settings.slabRate / 100;
+  const years: TaxYear[] = [];
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const { interest, principal } = paid.get(year) ?? { interest: 0, principal: 0 };
+    const claimable = year >= possessionYear;
+    const preConstructionClaim = claimable && year < possessionYear + PRE_CONSTRUCTION_INSTALMENTS ? instalment : 0;
+    const interestDeduction = claimable ? Math.min(settings.interestCap, interest + preConstructionClaim) : 0;
+    const principalDeduction = claimable ? Math.min(principalRoom, principal) : 0;
+    years.push({
+      startYear: year,
+      label: yearLabel(year, "financial"),
+      interestPaid: interest,
+      principalPaid: principal,
+      preConstructionClaim,
+      interestDeduction,
+      principalDeduction,
+      taxSaved: (interestDeduction + principalDeduction) * rate,
+      netInterestCost: interest - interestDeduction * rate,
+    });
+  }
+
+  const totalInterest = years.reduce((sum, y) => sum + y.interestPaid, 0);
+  const interestTaxSaved = years.reduce((sum, y) => sum + y.interestDeduction * rate, 0);
+  return {
+    years,
+    preConstructionInterest,
+    totalInterest,
+    totalTaxSaved: years.reduce((sum, y) => sum + y.taxSaved, 0),
+    interestTaxSaved,
+    netInterestCost: totalInterest - interestTaxSaved,
+  };
+}
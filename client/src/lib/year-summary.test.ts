@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateLoan } from "@shared/calculator";
+import { debitDateOf, summarizeByYear } from "./year-summary";
+
+const LAKH = 100000;
+
+const assertClose = (actual: number, expected: number, tolerance = 0.01) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+
+// Periods run from the 31st, so the first one straddles the 31 March financial year end
+const start = new Date(2024, 2, 31);
+const result = calculateLoan(
+  20 * LAKH,
+  20,
+  9,
+  start,
+  [
+    { date: start, amount: 10 * LAKH },
+    { date: new Date(2024, 3, 5), amount: 5 * LAKH },
+  ],
+  [],
+  [{ date: new Date(2025, 0, 2), amount: 1 * LAKH }],
+  0,
+  { repaymentMode: "pre-emi", emiStartDate: new Date(2025, 9, 31) }
+);
+
+describe("summarizeByYear", () => {
+  it("debits a period's interest when it ends", () => {
+    assert.equal(debitDateOf(result.schedule[0]).getTime(), new Date(2024, 3, 30).getTime());
+  });
+
+  it("counts a disbursal in the financial year it was made, not the one its period started in", () => {
+    const [fy24, fy25] = summarizeByYear(result, "financial");
+    assert.equal(fy24.label, "FY 2023-24");
+    assert.equal(fy24.disbursed, 10 * LAKH);
+    assert.equal(fy24.months, 0);
+    assert.equal(fy24.interest, 0);
+    assertClose(fy24.closingBalance, 10 * LAKH);
+    assert.equal(fy25.label, "FY 2024-25");
+    assert.equal(fy25.disbursed, 5 * LAKH);
+    assertClose(fy25.openingBalance, 10 * LAKH);
+    // The first period's interest, debited on 30 April, belongs to the new year with the other eleven
+    assert.equal(fy25.months, 12);
+    assertClose(fy25.interest, result.schedule.slice(0, 12).reduce((sum, row) => sum + row.interest, 0));
+  });
+
+  it("counts a prepayment in the calendar year it was made", () => {
+    // Made on 2 January, in the period that started on 31 December
+    const [cy24, cy25] = summarizeByYear(result, "calendar");
+    assert.equal(cy24.prepaid, 0);
+    assert.equal(cy25.prepaid, 1 * LAKH);
+  });
+
+  it("reconciles each year's balances and chains them into the next", () => {
+    for (const basis of ["financial", "calendar"] as const) {
+      const years = summarizeByYear(result, basis);
+      years.forEach((year, i) => {
+        assertClose(year.closingBalance, year.openingBalance + year.disbursed - year.principal - year.prepaid, 0.1);
+        if (i > 0) assertClose(year.openingBalance, years[i - 1].closingBalance);
+      });
+      assertClose(years.reduce((sum, y) => sum + y.interest, 0), result.summary.totalInterest, 0.1);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { addMonths } from "date-fns";
+import type { CalculationResult, EMIPayment } from "@shared/calculator";
+
+// Financial years run April to March (ITR, interest certificates); calendar years January to December.
+export type YearBasis = "financial" | "calendar";
+
+export const YEAR_BASIS_LABELS: Record<YearBasis, string> = {
+  financial: "Financial year",
+  calendar: "Calendar year",
+};
+
+export interface YearSummary {
+  startYear: number; // FY 2024-25 starts in 2024
+  label: string;
+  months: number;
+  openingBalance: number;
+  disbursed: number;
+  interest: number; // Charged, so flagged shortfalls are left out
+  principal: number; // Repaid through EMIs
+  prepaid: number; // Extra payments on top of the EMI
+  closingBalance: number;
+}
+
+export const financialYearOf = (date: Date) => (date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1);
+
+export const yearOf = (date: Date, basis: YearBasis) => (basis === "financial" ? financialYearOf(date) : date.getFullYear());
+
+// A row's date is the start of its period; interest and the EMI are debited when it ends, on the next row's date.
+export const debitDateOf = (row: EMIPayment) => addMonths(row.date, 1);
+
+// What a row took off the balance: EMI principal and prepayments, plus unpaid interest that was added to it.
+const reductionOf = (row: EMIPayment, capitalized: boolean) =>
+  Math.max(0, row.openingPrincipal - row.closingPrincipal + (capitalized ? row.interestShortfall ?? 0 : 0));
+
+/**
+ * The row's prepayments, each on the date it was made. Together they are capped at the row's reduction,
+ * so a prepayment larger than the balance only counts for what was owed.
+ */
+export function prepaymentsOf(row: EMIPayment, capitalized: boolean): { date: Date; amount: number }[] {
+  let room = reductionOf(row, capitalized);
+  return (row.events ?? [])
+    .filter(e => e.type === "extra")
+    .map(e => {
+      const amount = Math.min(room, e.amount ?? 0);
+      room -= amount;
+      return { date: e.date, amount };
+    });
+}
+
+/** Principal repaid through the row's EMI, i.e. its reduction less the prepayments. */
+export const emiPrincipalOf = (row: EMIPayment, capitalized: boolean) =>
+  reductionOf(row, capitalized) - prepaymentsOf(row, capitalized).reduce((sum, p) => sum + p.amount, 0);
+
+export const yearLabel = (startYear: number, basis: YearBasis) =>
+  basis === "financial" ? `FY ${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}` : `CY ${startYear}`;
+
+/**
+ * Rolls the monthly schedule up into years. Disbursals and prepayments count in the year they were made,
+ * interest and EMI principal in the year they were debited, so a period that straddles the year end is
+ * split between the two. Balances reconcile: opening + disbursed - principal - prepaid, plus any unpaid
+ * interest added to the balance, gives the closing balance.
+ */
+export function summarizeByYear(result: CalculationResult, basis: YearBasis): YearSummary[] {
+  const capitalized = result.summary.shortfallPolicy === "capitalize";
+  const years: YearSummary[] = [];
+  // Flows come in date order, so a new year only ever follows the last one
+  const yearFor = (date: Date) => {
+    const startYear = yearOf(date, basis);
+    const last = years[years.length - 1];
+    if (last && last.startYear === startYear) return last;
+    const balance = last ? last.closingBalance : 0;
+    const year: YearSummary = {
+      startYear,
+      label: yearLabel(startYear, basis),
+      months: 0,
+      openingBalance: balance,
+      disbursed: 0,
+      interest: 0,
+      principal: 0,
+      prepaid: 0,
+      closingBalance: balance,
+    };
+    years.push(year);
+    return year;
+  };
+
+  for (const row of result.schedule) {
+    const prepayments = prepaymentsOf(row, capitalized);
+    const flows = [
+      ...(row.events ?? []).filter(e => e.type === "disbursal").map(e => ({ date: e.date, disbursed: e.amount ?? 0, prepaid: 0 })),
+      ...prepayments.map(p => ({ date: p.date, disbursed: 0, prepaid: p.amount })),
+    ].sort((a, b) => a.date.getTime() - b.date.getTime());
+    for (const flow of flows) {
+      const year = yearFor(flow.date);
+      year.disbursed += flow.disbursed;
+      year.prepaid += flow.prepaid;
+      year.closingBalance += flow.disbursed - flow.prepaid;
+    }
+
+    const year = yearFor(debitDateOf(row));
+    year.months++;
+    year.interest += row.interest - (capitalized ? 0 : row.interestShortfall ?? 0);
+    year.principal += emiPrincipalOf(row, capitalized);
+    // The debit closes the period, so the running balance lands on the row's own closing balance
+    year.closingBalance = row.closingPrincipal;
+  }
+  return years;
+}
@@ -0,0 +1,265 @@
+import { useMemo, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { format, differenceInCalendarMonths } from "date-fns";
+import { CartesianGrid, XAxis, YAxis, Tooltip, ResponsiveContainer, LineChart, Line, Legend } from "recharts";
+import { ArrowLeft, GitCompare, Trash2 } from "lucide-react";
+import { useCalculations } from "@/hooks/use-calculations";
+import { calculateFromInputs, toLoanInputData } from "@/lib/plans";
+import { getScenarios, removeScenario } from "@/lib/scenarios";
+import { cn, formatCurrency } from "@/lib/utils";
+import type { CalculationResult } from "@shared/calculator";
+import { DAY_COUNT_LABELS } from "@shared/day-count";
+import type { LoanInputData } from "@/components/LoanInputs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+
+const MAX_COMPARED = 4;
+const SERIES_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--accent))",
+  "hsl(var(--destructive))",
+  "hsl(38 92% 50%)",
+];
+
+interface CompareOption {
+  key: string;
+  name: string;
+  saved: boolean;
+  inputs: LoanInputData;
+}
+
+interface ComparedScenario extends CompareOption {
+  result: CalculationResult;
+}
+
+const describeClosureShift = (months: number) => {
+  if (months === 0) return "Same month";
+  return `${Math.abs(months)} mo ${months > 0 ? "earlier" : "later"}`;
+};
+
+export default function Compare() {
+  const search = useSearch();
+  const { data: calculations, isLoading } = useCalculations();
+  const [scenarios, setScenarios] = useState(getScenarios);
+
+  const [selected, setSelected] = useState<string[]>(() => {
+    const ids = new URLSearchParams(search).get("ids");
+    return ids ? ids.split(",").filter(Boolean).slice(0, MAX_COMPARED).map(id => `c:${id}`) : [];
+  });
+
+  const options: CompareOption[] = useMemo(() => [
+    ...(calculations || []).map(calc => ({
+      key: `c:${calc.id}`,
+      name: calc.name,
+      saved: true,
+      inputs: toLoanInputData(calc),
+    })),
+    ...scenarios.map(s => ({ key: `s:${s.key}`, name: s.name, saved: false, inputs: s.inputs })),
+  ], [calculations, scenarios]);
+
+  // Keep the selection order so the first pick is always the baseline.
+  const compared: ComparedScenario[] = useMemo(() => selected
+    .map(key => options.find(o => o.key === key))
+    .filter((o): o is CompareOption => !!o)
+    .map(o => ({ ...o, result: calculateFromInputs(o.inputs) })),
+  [selected, options]);
+
+  const toggle = (key: string) => {
+    setSelected(prev => prev.includes(key)
+      ? prev.filter(k => k !== key)
+      : prev.length >= MAX_COMPARED ? prev : [...prev, key]);
+  };
+
+  const discardScenario = (key: string) => {
+    removeScenario(key);
+    setScenarios(getScenarios());
+    setSelected(prev => prev.filter(k => k !== `s:${key}`));
+  };
+
+  const chartData = useMemo(() => {
+    const byMonth = new Map<string, Record<string, number | string>>();
+    compared.forEach((c, i) => {
+      c.result.schedule.forEach(row => {
+        const key = format(row.date, "yyyy-MM");
+        const point = byMonth.get(key) || { key, date: format(row.date, "MMM yy") };
+        point[`s${i}`] = Math.round(row.openingPrincipal);
+        byMonth.set(key, point);
+      });
+    });
+    return Array.from(byMonth.values()).sort((a, b) => String(a.key).localeCompare(String(b.key)));
+  }, [compared]);
+
+  const baseline = compared[0]?.result.summary;
+
+  const rows: { label: string; render: (c: ComparedScenario) => string; highlight?: boolean }[] = [
+    { label: "Total Interest", render: c => formatCurrency(c.result.summary.totalInterest) },
+    { label: "Total Amount Paid", render: c => formatCurrency(c.result.summary.totalAmountPaid) },
+    { label: "Loan Disbursed", render: c => formatCurrency(c.result.summary.totalDisbursed) },
+    { label: "Extra Principal Paid", render: c => formatCurrency(c.result.summary.totalExtraPaid) },
+    { label: "Closure Date", render: c => format(c.result.summary.closureDate, "MMM yyyy") },
+    { label: "Months to Close", render: c => `${c.result.schedule.length} mo` },
+    { label: "Day Count", render: c => DAY_COUNT_LABELS[c.result.summary.dayCount] },
+    {
+      label: "Interest Saved vs Baseline",
+      render: c => formatCurrency(baseline.totalInterest - c.result.summary.totalInterest),
+      highlight: true,
+    },
+    {
+      label: "Closure vs Baseline",
+      render: c => describeClosureShift(differenceInCalendarMonths(baseline.closureDate, c.result.summary.closureDate)),
+      highlight: true,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background font-sans">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur px-8 h-16 flex items-center">
+        <div className="container mx-auto flex items-center gap-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon" className="-ml-2">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold font-display">Compare Scenarios</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Pick 2 to {MAX_COMPARED} scenarios</CardTitle>
+            <CardDescription>The first one you pick is the baseline for savings and closure differences.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-24 w-full rounded-lg" />
+            ) : options.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Save a plan or use "Add to comparison" on the calculator to get started.
+              </p>
+            ) : (
+              <div className="grid sm:grid-cols-2 gap-2">
+                {options.map(option => {
+                  const index = selected.indexOf(option.key);
+                  const disabled = index === -1 && selected.length >= MAX_COMPARED;
+                  return (
+                    <div
+                      key={option.key}
+                      className={cn(
+                        "flex items-center gap-3 rounded-md border px-3 py-2",
+                        index !== -1 && "border-primary bg-primary/5",
+                        disabled && "opacity-50"
+                      )}
+                    >
+                      <Checkbox
+                        id={option.key}
+                        checked={index !== -1}
+                        disabled={disabled}
+                        onCheckedChange={() => toggle(option.key)}
+                      />
+                      <label htmlFor={option.key} className="flex-1 text-sm font-medium cursor-pointer">
+                        {option.name}
+                      </label>
+                      {index === 0 && <Badge variant="secondary" className="font-normal">Baseline</Badge>}
+                      <Badge variant="outline" className="font-normal">{option.saved ? "Saved" : "Unsaved"}</Badge>
+                      {!option.saved && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground"
+                          onClick={() => discardScenario(option.key.slice(2))}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {compared.length < 2 ? (
+          <div className="text-center py-16">
+            <div className="bg-muted w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-4">
+              <GitCompare className="w-10 h-10 text-muted-foreground" />
+            </div>
+            <h2 className="text-2xl font-bold text-foreground">Select at least two scenarios</h2>
+            <p className="text-muted-foreground mt-2">Their summaries and principal curves will appear side by side.</p>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-3 px-4"><CardTitle>Summary</CardTitle></CardHeader>
+              <CardContent className="px-4">
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader className="bg-muted/50">
+                      <TableRow>
+                        <TableHead />
+                        {compared.map((c, i) => (
+                          <TableHead key={c.key} className="text-right">
+                            <span className="inline-flex items-center gap-2">
+                              <span className="h-2.5 w-2.5 rounded-full" style={{ background: SERIES_COLORS[i] }} />
+                              {c.name}
+                            </span>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map(row => (
+                        <TableRow key={row.label} className={row.highlight ? "bg-primary/5" : ""}>
+                          <TableCell className="font-medium">{row.label}</TableCell>
+                          {compared.map((c, i) => (
+                            <TableCell key={c.key} className={cn("text-right", row.highlight && "font-semibold text-primary")}>
+                              {row.highlight && i === 0 ? "—" : row.render(c)}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader><CardTitle className="text-base">Principal Outstanding</CardTitle></CardHeader>
+              <CardContent className="h-[360px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                    <XAxis dataKey="date" tick={{fontSize: 12}} axisLine={false} tickLine={false} minTickGap={30} />
+                    <YAxis hide={true} domain={['auto', 'auto']} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Legend />
+                    {compared.map((c, i) => (
+                      <Line
+                        key={c.key}
+                        type="monotone"
+                        dataKey={`s${i}`}
+                        name={c.name}
+                        stroke={SERIES_COLORS[i]}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,30 +1,66 @@
-import { useState } from "react";
-import { Link } from "wouter";
-import { Calculator, History, Info } from "lucide-react";
+import { useState, useMemo, useEffect } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { Calculator, GitCompare, History, Info, ListPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { LoanInputs, type LoanInputData } from "@/components/LoanInputs";
 import { LoanResults } from "@/components/LoanResults";
-import { calculateLoan, type CalculationResult } from "@/lib/calculator";
-import { useCreateCalculation } from "@/hooks/use-calculations";
+import { Reconciliation } from "@/components/Reconciliation";
+import { StressTest } from "@/components/StressTest";
+import { MonteCarlo } from "@/components/MonteCarlo";
+import { GoalSeek } from "@/components/GoalSeek";
+import type { ActualPayment } from "@shared/schema";
+import type { CalculationResult } from "@shared/calculator";
+import { calculateFromInputs, toInsertCalculation, toLoanInputData } from "@/lib/plans";
+import { addScenario, getScenarios } from "@/lib/scenarios";
+import { useToast } from "@/hooks/use-toast";
+import { useCalculation, useCreateCalculation, useUpdateCalculation } from "@/hooks/use-calculations";
 
 export default function Home() {
   const [result, setResult] = useState<CalculationResult | null>(null);
   const [lastInputs, setLastInputs] = useState<LoanInputData | null>(null);
-  const { mutate: saveCalculation } = useCreateCalculation();
+  const [actuals, setActuals] = useState<ActualPayment[]>([]);
+  const { mutateAsync: saveCalculation } = useCreateCalculation();
+  const { mutateAsync: updateCalculation } = useUpdateCalculation();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
 
-  const handleCalculate = (data: LoanInputData) => {
+  const search = useSearch();
+  const loadId = Number(new URLSearchParams(search).get("load")) || 0;
+  const { data: loadedPlan } = useCalculation(loadId);
+  const initialData = useMemo(
+    () => (loadedPlan ? toLoanInputData(loadedPlan) : undefined),
+    [loadedPlan]
+  );
+
+  useEffect(() => {
+    if (loadedPlan) setActuals(loadedPlan.actuals || []);
+  }, [loadedPlan]);
+
+  const handleCalculate = (data: LoanInputData | null) => {
     setLastInputs(data);
-    const calcResult = calculateLoan(
-      data.totalLoan,
-      data.tenureYears,
-      data.interestRate,
-      data.startDate,
-      data.disbursals,
-      data.rateChanges,
-      data.extraPayments,
-      data.fullEmiAtStart
-    );
-    setResult(calcResult);
+    setResult(data && calculateFromInputs(data));
+  };
+
+  const handleSave = async (name: string, asNew = false) => {
+    if (!lastInputs) return;
+    const payload = toInsertCalculation(name, lastInputs, actuals);
+    if (loadedPlan && !asNew) {
+      await updateCalculation({ id: loadedPlan.id, ...payload });
+      return;
+    }
+    const created = await saveCalculation(payload);
+    // Keep editing the new row so later saves update it rather than duplicating it.
+    navigate(`/?load=${created.id}`);
+  };
+
+  const handleAddToComparison = () => {
+    if (!lastInputs) return;
+    const name = loadedPlan ? `${loadedPlan.name} (edited)` : `Scenario ${getScenarios().length + 1}`;
+    addScenario(name, lastInputs);
+    toast({
+      title: "Added to comparison",
+      description: `${name} is ready on the Compare page`,
+    });
   };
 
   return (
@@ -37,6 +73,14 @@ export default function Home() {
           </div>
           <div className="flex flex-1 items-center justify-end space-x-4">
             <nav className="flex items-center space-x-1">
+              <Button variant="ghost" size="sm" className="hidden sm:flex" onClick={handleAddToComparison} disabled={!lastInputs}>
+                <ListPlus className="w-4 h-4 mr-2" /> Add to comparison
+              </Button>
+              <Link href="/compare">
+                <Button variant="ghost" size="sm" className="hidden sm:flex">
+                  <GitCompare className="w-4 h-4 mr-2" /> Compare
+                </Button>
+              </Link>
               <Link href="/saved">
                 <Button variant="ghost" size="sm" className="hidden sm:flex">
                   <History className="w-4 h-4 mr-2" /> Saved Calculations
@@ -58,11 +102,14 @@ export default function Home() {
           <p className="text-lg text-muted-foreground max-w-2xl">
             Plan your home loan payments smartly. See how your EMI changes as the bank disburses your loan and as interest rates fluctuate.
           </p>
+          {loadedPlan && (
+            <p className="text-sm text-primary font-medium">Loaded plan: {loadedPlan.name}</p>
+          )}
         </div>
 
         <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
           <div className="xl:col-span-4 space-y-6 print:hidden">
-            <LoanInputs onCalculate={handleCalculate} />
+            <LoanInputs onCalculate={handleCalculate} onSave={handleSave} initialData={initialData} planName={loadedPlan?.name} />
             
             <div className="bg-blue-50 dark:bg-blue-950/30 p-4 rounded-lg border border-blue-100 dark:border-blue-900/50 flex gap-3 text-sm text-blue-800 dark:text-blue-200">
               <Info className="w-5 h-5 flex-shrink-0 mt-0.5" />
@@ -74,6 +121,26 @@ export default function Home() {
 
           <div className="xl:col-span-8 print:col-span-12">
             <LoanResults data={result} inputs={lastInputs || undefined} />
+            {result && (
+              <div className="mt-6 print:hidden">
+                <Reconciliation schedule={result.schedule} actuals={actuals} onChange={setActuals} />
+              </div>
+            )}
+            {lastInputs && result && (
+              <div className="mt-6 print:hidden">
+                <GoalSeek inputs={lastInputs} />
+              </div>
+            )}
+            {lastInputs && result && (
+              <div className="mt-6 print:hidden">
+                <StressTest inputs={lastInputs} />
+              </div>
+            )}
+            {lastInputs && result && (
+              <div className="mt-6 print:hidden">
+                <MonteCarlo inputs={lastInputs} />
+              </div>
+            )}
           </div>
         </div>
       </main>
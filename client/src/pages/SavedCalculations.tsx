@@ -1,12 +1,14 @@
 import { Link } from "wouter";
 import { format } from "date-fns";
-import { ArrowLeft, Trash2, Calendar, FileText, ChevronRight } from "lucide-react";
+import { ArrowLeft, Trash2, Calendar, FileText, ChevronRight, History } from "lucide-react";
 import { useCalculations, useDeleteCalculation } from "@/hooks/use-calculations";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { VersionHistory } from "@/components/VersionHistory";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -61,61 +63,73 @@ export default function SavedCalculations() {
             {calculations.map((calc) => (
               <Card key={calc.id} className="group hover:shadow-lg transition-all border-l-4 border-l-primary/0 hover:border-l-primary">
                 <CardContent className="p-6">
-                  <div className="flex justify-between items-start">
-                    <div className="space-y-1">
-                      <div className="flex items-center gap-2">
-                        <h3 className="text-xl font-bold text-foreground group-hover:text-primary transition-colors">
-                          {calc.name}
-                        </h3>
-                        <Badge variant="secondary" className="font-normal">
-                          {calc.loanTenureYears} Years
-                        </Badge>
-                      </div>
-                      <p className="text-2xl font-bold tracking-tight text-foreground/80">
-                        ₹ {parseInt(calc.totalLoanAmount).toLocaleString('en-IN')}
-                        <span className="text-sm font-normal text-muted-foreground ml-2">@ {calc.interestRate}%</span>
-                      </p>
-                      <div className="flex items-center text-sm text-muted-foreground gap-4 mt-2">
-                        <span className="flex items-center">
-                          <Calendar className="w-3.5 h-3.5 mr-1" />
-                          Starts {format(new Date(calc.startDate), 'MMM yyyy')}
-                        </span>
-                        <span>•</span>
-                        <span>{(calc.disbursals as any[]).length} Phases</span>
+                  <Collapsible>
+                    <div className="flex justify-between items-start">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="text-xl font-bold text-foreground group-hover:text-primary transition-colors">
+                            {calc.name}
+                          </h3>
+                          <Badge variant="secondary" className="font-normal">
+                            {calc.loanTenureYears} Years
+                          </Badge>
+                        </div>
+                        <p className="text-2xl font-bold tracking-tight text-foreground/80">
+                          ₹ {parseInt(calc.totalLoanAmount).toLocaleString('en-IN')}
+                          <span className="text-sm font-normal text-muted-foreground ml-2">@ {calc.interestRate}%</span>
+                        </p>
+                        <div className="flex items-center text-sm text-muted-foreground gap-4 mt-2">
+                          <span className="flex items-center">
+                            <Calendar className="w-3.5 h-3.5 mr-1" />
+                            Starts {format(new Date(calc.startDate), 'MMM yyyy')}
+                          </span>
+                          <span>•</span>
+                          <span>{(calc.disbursals as any[]).length} Phases</span>
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="flex items-center gap-2">
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive">
-                            <Trash2 className="w-5 h-5" />
+                      <div className="flex items-center gap-2">
+                        <CollapsibleTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-muted-foreground">
+                            <History className="w-4 h-4 mr-1" /> History
                           </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete this calculation?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This action cannot be undone. This will permanently delete the saved calculation.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction 
-                              onClick={() => deleteCalc(calc.id)}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            >
-                              Delete
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                      
-                      <Button variant="outline" size="sm" className="hidden sm:flex">
-                        Load <ChevronRight className="w-4 h-4 ml-1" />
-                      </Button>
+                        </CollapsibleTrigger>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive">
+                              <Trash2 className="w-5 h-5" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete this calculation?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This action cannot be undone. This will permanently delete the saved calculation.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteCalc(calc.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+
+                        <Link href={`/?load=${calc.id}`}>
+                          <Button variant="outline" size="sm" className="hidden sm:flex">
+                            Load <ChevronRight className="w-4 h-4 ml-1" />
+                          </Button>
+                        </Link>
+                      </div>
                     </div>
-                  </div>
+                    <CollapsibleContent className="mt-6 pt-4 border-t">
+                      <VersionHistory calculationId={calc.id} />
+                    </CollapsibleContent>
+                  </Collapsible>
                 </CardContent>
               </Card>
             ))}
@@ -1,9 +1,25 @@
 import type { Express } from "express";
 import type { Server } from "http";
-import { storage } from "./storage";
+import { fromSnapshot, storage } from "./storage";
 import { api } from "@shared/routes";
+import { updateCalculationSchema } from "@shared/schema";
+import { calculatePlan } from "@shared/calculator";
+import { validatePlan, type ValidationIssue } from "@shared/validation";
 import { z } from "zod";
 
+// The first error drives the form's inline message; the full list lets API callers fix everything at once.
+const zodErrorBody = (err: z.ZodError) => ({
+  message: err.errors[0].message,
+  field: err.errors[0].path.join('.'),
+  errors: err.errors.map(issue => ({ field: issue.path.join('.'), message: issue.message })),
+});
+
+const planErrorBody = (errors: ValidationIssue[]) => ({
+  message: errors[0].message,
+  field: errors[0].field,
+  errors: errors.map(({ field, message }) => ({ field, message })),
+});
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -17,14 +33,15 @@ export async function registerRoutes(
   app.post(api.calculations.create.path, async (req, res) => {
     try {
       const input = api.calculations.create.input.parse(req.body);
+      const { errors } = validatePlan(input);
+      if (errors.length > 0) {
+        return res.status(400).json(planErrorBody(errors));
+      }
       const item = await storage.createCalculation(input);
       res.status(201).json(item);
     } catch (err) {
       if (err instanceof z.ZodError) {
-        return res.status(400).json({
-          message: err.errors[0].message,
-          field: err.errors[0].path.join('.'),
-        });
+        return res.status(400).json(zodErrorBody(err));
       }
       throw err;
     }
@@ -38,6 +55,59 @@ export async function registerRoutes(
     res.json(item);
   });
 
+  app.put(api.calculations.update.path, async (req, res) => {
+    try {
+      const input = api.calculations.update.input.parse(req.body);
+      const { errors } = validatePlan(input);
+      if (errors.length > 0) {
+        return res.status(400).json(planErrorBody(errors));
+      }
+      const item = await storage.updateCalculation(Number(req.params.id), input);
+      if (!item) {
+        return res.status(404).json({ message: 'Calculation not found' });
+      }
+      res.json(item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json(zodErrorBody(err));
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.calculations.patch.path, async (req, res) => {
+    try {
+      const input = api.calculations.patch.input.parse(req.body);
+      const existing = await storage.getCalculation(Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Calculation not found' });
+      }
+      // A partial update can still break a rule that spans fields, so check the plan as it would be saved
+      const { errors } = validatePlan({ ...existing, ...input });
+      if (errors.length > 0) {
+        return res.status(400).json(planErrorBody(errors));
+      }
+      const item = await storage.updateCalculation(existing.id, input);
+      if (!item) {
+        return res.status(404).json({ message: 'Calculation not found' });
+      }
+      res.json(item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json(zodErrorBody(err));
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.calculations.schedule.path, async (req, res) => {
+    const item = await storage.getCalculation(Number(req.params.id));
+    if (!item) {
+      return res.status(404).json({ message: 'Calculation not found' });
+    }
+    res.json(calculatePlan(item));
+  });
+
   app.delete(api.calculations.delete.path, async (req, res) => {
     const item = await storage.getCalculation(Number(req.params.id));
     if (!item) {
@@ -47,5 +117,63 @@ export async function registerRoutes(
     res.status(204).send();
   });
 
+  // Stateless calculation API
+  app.post(api.calculate.path, async (req, res) => {
+    try {
+      const input = api.calculate.input.parse(req.body);
+      const { errors } = validatePlan(input);
+      if (errors.length > 0) {
+        return res.status(400).json(planErrorBody(errors));
+      }
+      res.json(calculatePlan(input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json(zodErrorBody(err));
+      }
+      throw err;
+    }
+  });
+
+  // Version history API
+  app.get(api.versions.list.path, async (req, res) => {
+    const item = await storage.getCalculation(Number(req.params.id));
+    if (!item) {
+      return res.status(404).json({ message: 'Calculation not found' });
+    }
+    const versions = await storage.getCalculationVersions(item.id);
+    res.json(versions);
+  });
+
+  app.get(api.versions.get.path, async (req, res) => {
+    const version = await storage.getCalculationVersion(Number(req.params.id), Number(req.params.version));
+    if (!version) {
+      return res.status(404).json({ message: 'Version not found' });
+    }
+    res.json(version);
+  });
+
+  // Restoring writes the old inputs back as a new version, so history is never rewritten. Snapshots can
+  // predate the current columns and rules, so they go through the same checks as a PUT.
+  app.post(api.versions.restore.path, async (req, res) => {
+    const calculationId = Number(req.params.id);
+    const version = await storage.getCalculationVersion(calculationId, Number(req.params.version));
+    if (!version) {
+      return res.status(404).json({ message: 'Version not found' });
+    }
+    const parsed = updateCalculationSchema.safeParse(fromSnapshot(version.snapshot));
+    if (!parsed.success) {
+      return res.status(400).json(zodErrorBody(parsed.error));
+    }
+    const { errors } = validatePlan(parsed.data);
+    if (errors.length > 0) {
+      return res.status(400).json(planErrorBody(errors));
+    }
+    const item = await storage.updateCalculation(calculationId, parsed.data);
+    if (!item) {
+      return res.status(404).json({ message: 'Calculation not found' });
+    }
+    res.json(item);
+  });
+
   return httpServer;
 }
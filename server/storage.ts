@@ -1,25 +1,73 @@
 import { db } from "./db";
 import {
   calculations,
+  calculationVersions,
   type InsertCalculation,
-  type Calculation
+  type Calculation,
+  type CalculationSnapshot,
+  type CalculationVersion
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, max } from "drizzle-orm";
 
 export interface IStorage {
   createCalculation(calculation: InsertCalculation): Promise<Calculation>;
   getCalculations(): Promise<Calculation[]>;
   getCalculation(id: number): Promise<Calculation | undefined>;
+  updateCalculation(id: number, updates: Partial<InsertCalculation>): Promise<Calculation | undefined>;
   deleteCalculation(id: number): Promise<void>;
+  getCalculationVersions(calculationId: number): Promise<CalculationVersion[]>;
+  getCalculationVersion(calculationId: number, version: number): Promise<CalculationVersion | undefined>;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function toSnapshot({ id, createdAt, startDate, emiStartDate, actuals, ...inputs }: Calculation): CalculationSnapshot {
+  return {
+    ...inputs,
+    startDate: startDate.toISOString(),
+    emiStartDate: emiStartDate ? emiStartDate.toISOString() : null,
+  };
+}
+
+/**
+ * Turns a snapshot back into update input, to be parsed and validated before it is written. The plan's
+ * current actuals are kept, so older snapshots that still carry actuals have them dropped. Optional
+ * columns added after the snapshot was taken are cleared rather than left at the plan's current value;
+ * list columns missing from it fall back to their schema defaults when parsed.
+ */
+export function fromSnapshot(snapshot: CalculationSnapshot): Record<string, unknown> {
+  const { actuals, ...inputs } = snapshot as Partial<CalculationSnapshot> & { actuals?: unknown };
+  return { emiStartDate: null, emiStepUp: null, floatingRate: null, ...inputs };
+}
+
+// Holds the plan's row lock while numbering, so concurrent saves take turns instead of both claiming max + 1.
+async function recordVersion(tx: Transaction, calculation: Calculation): Promise<void> {
+  await tx
+    .select({ id: calculations.id })
+    .from(calculations)
+    .where(eq(calculations.id, calculation.id))
+    .for("update");
+  const [{ latest }] = await tx
+    .select({ latest: max(calculationVersions.version) })
+    .from(calculationVersions)
+    .where(eq(calculationVersions.calculationId, calculation.id));
+  await tx.insert(calculationVersions).values({
+    calculationId: calculation.id,
+    version: (latest ?? 0) + 1,
+    snapshot: toSnapshot(calculation),
+  });
 }
 
 export class DatabaseStorage implements IStorage {
   async createCalculation(insertCalculation: InsertCalculation): Promise<Calculation> {
-    const [calculation] = await db
-      .insert(calculations)
-      .values(insertCalculation)
-      .returning();
-    return calculation;
+    return await db.transaction(async (tx) => {
+      const [calculation] = await tx
+        .insert(calculations)
+        .values(insertCalculation)
+        .returning();
+      await recordVersion(tx, calculation);
+      return calculation;
+    });
   }
 
   async getCalculations(): Promise<Calculation[]> {
@@ -34,9 +82,45 @@ export class DatabaseStorage implements IStorage {
     return calculation;
   }
 
+  async updateCalculation(id: number, updates: Partial<InsertCalculation>): Promise<Calculation | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getCalculation(id);
+    }
+    return await db.transaction(async (tx) => {
+      const [calculation] = await tx
+        .update(calculations)
+        .set(updates)
+        .where(eq(calculations.id, id))
+        .returning();
+      if (calculation) {
+        await recordVersion(tx, calculation);
+      }
+      return calculation;
+    });
+  }
+
   async deleteCalculation(id: number): Promise<void> {
     await db.delete(calculations).where(eq(calculations.id, id));
   }
+
+  async getCalculationVersions(calculationId: number): Promise<CalculationVersion[]> {
+    return await db
+      .select()
+      .from(calculationVersions)
+      .where(eq(calculationVersions.calculationId, calculationId))
+      .orderBy(desc(calculationVersions.version));
+  }
+
+  async getCalculationVersion(calculationId: number, version: number): Promise<CalculationVersion | undefined> {
+    const [item] = await db
+      .select()
+      .from(calculationVersions)
+      .where(and(
+        eq(calculationVersions.calculationId, calculationId),
+        eq(calculationVersions.version, version)
+      ));
+    return item;
+  }
 }
 
 export const storage = new DatabaseStorage();
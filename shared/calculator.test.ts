@@ -0,0 +1,267 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateLoan, type CalculationResult, type LoanOptions } from "./calculator";
+
+const LAKH = 100000;
+
+// Standard amortizing EMI for `months` monthly instalments at an annual `rate` percent
+const emiFor = (principal: number, rate: number, months: number) => {
+  const r = rate / 12 / 100;
+  return (principal * r * Math.pow(1 + r, months)) / (Math.pow(1 + r, months) - 1);
+};
+
+const assertClose = (actual: number, expected: number, tolerance = 0.01) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+
+// A single disbursal of the whole amount on the start date
+function loan(amount: number, years: number, rate: number, start: Date, options: LoanOptions = {}, extras: { date: Date; amount: number }[] = []) {
+  return calculateLoan(amount, years, rate, start, [{ date: start, amount }], [], extras, 0, options);
+}
+
+const firstEmiRow = (result: CalculationResult) => result.schedule.find(row => row.repaymentType === "emi")!;
+
+// Pre-EMI months of a construction-linked loan in the layout of a lender's statement: tranche dates and
+// amounts, the rate and its reset, and the interest debited for each period, rounded to the rupee.
+// Periods run from the 5th, and interest accrues on the daily balance under Actual/365.
+const STATEMENT = {
+  sanctioned: 40 * LAKH,
+  tenureYears: 20,
+  rate: 8.6,
+  start: new Date(2024, 0, 5),
+  emiStartDate: new Date(2025, 0, 5),
+  disbursals: [
+    { date: new Date(2024, 0, 5), amount: 15 * LAKH },
+    { date: new Date(2024, 1, 18), amount: 8 * LAKH },
+    { date: new Date(2024, 3, 9), amount: 6.5 * LAKH },
+  ],
+  rateChanges: [{ date: new Date(2024, 4, 1), rate: 8.75 }],
+  interestCharged: [10956, 13265, 16799, 20288, 21923, 21216],
+};
+
+describe("interest accrual", () => {
+  it("splits a month's interest at a mid-month rate change", () => {
+    const start = new Date(2024, 0, 1);
+    const result = calculateLoan(10 * LAKH, 20, 9, start, [{ date: start, amount: 10 * LAKH }], [{ date: new Date(2024, 0, 21), rate: 8 }]);
+    // 20 days at 9% and 11 at 8% on Actual/365
+    assertClose(result.schedule[0].interest, 7342.47);
+    assertClose(result.schedule[0].interest, (10 * LAKH * (0.09 * 20 + 0.08 * 11)) / 365);
+    assert.equal(result.schedule[1].rate, 8);
+  });
+
+  it("accrues a disbursal only from its own date", () => {
+    const start = new Date(2024, 0, 1);
+    const result = calculateLoan(20 * LAKH, 20, 9, start, [
+      { date: start, amount: 10 * LAKH },
+      { date: new Date(2024, 0, 16), amount: 10 * LAKH },
+    ], [], [], 0, { repaymentMode: "pre-emi", emiStartDate: new Date(2025, 0, 1) });
+    assertClose(result.schedule[0].interest, (10 * LAKH * 0.09 * 31 + 10 * LAKH * 0.09 * 16) / 365);
+  });
+
+  it("matches the interest debited on the statement", () => {
+    const result = calculateLoan(
+      STATEMENT.sanctioned,
+      STATEMENT.tenureYears,
+      STATEMENT.rate,
+      STATEMENT.start,
+      STATEMENT.disbursals,
+      STATEMENT.rateChanges,
+      [],
+      0,
+      { repaymentMode: "pre-emi", emiStartDate: STATEMENT.emiStartDate, dayCount: "actual-365" }
+    );
+    STATEMENT.interestCharged.forEach((charged, month) => {
+      assertClose(result.schedule[month].interest, charged, 0.5);
+    });
+  });
+});
+
+describe("same-date events", () => {
+  const start = new Date(2024, 0, 1);
+  const midMonth = new Date(2024, 0, 16);
+  const preEmi: LoanOptions = { repaymentMode: "pre-emi", emiStartDate: new Date(2025, 0, 1) };
+
+  it("applies two disbursals on the same day once each", () => {
+    const result = calculateLoan(20 * LAKH, 20, 9, start, [
+      { date: start, amount: 10 * LAKH },
+      { id: "first", date: midMonth, amount: 5 * LAKH },
+      { id: "second", date: midMonth, amount: 5 * LAKH },
+    ], [], [], 0, preEmi);
+    const [month] = result.schedule;
+    assertClose(month.closingPrincipal, 20 * LAKH);
+    assertClose(month.interest, (10 * LAKH * 0.09 * 31 + 10 * LAKH * 0.09 * 16) / 365);
+    assert.deepEqual(month.events?.filter(e => e.date.getTime() === midMonth.getTime()).map(e => e.id), ["first", "second"]);
+    assertClose(result.schedule[1].openingPrincipal, 20 * LAKH);
+  });
+
+  it("applies a disbursal and a rate change on the same day", () => {
+    const result = calculateLoan(20 * LAKH, 20, 9, start, [
+      { date: start, amount: 10 * LAKH },
+      { date: midMonth, amount: 10 * LAKH },
+    ], [{ date: midMonth, rate: 8 }], [], 0, preEmi);
+    const [month] = result.schedule;
+    // 15 days of the first tranche at 9%, then 16 of both at 8%
+    assertClose(month.interest, (10 * LAKH * 0.09 * 15 + 20 * LAKH * 0.08 * 16) / 365);
+    assert.deepEqual(month.events?.filter(e => e.date.getTime() === midMonth.getTime()).map(e => e.type).sort(), ["disbursal", "rate"]);
+    assert.equal(result.schedule[1].rate, 8);
+    assertClose(result.schedule[1].openingPrincipal, 20 * LAKH);
+  });
+});
+
+// Under 30/360 the remaining tenure is a whole number of months, so EMIs match the textbook formula
+const thirty: LoanOptions = { dayCount: "30-360" };
+
+describe("repayment modes", () => {
+  const start = new Date(2024, 0, 1);
+
+  it("amortizes from the first month with full EMI", () => {
+    const result = loan(30 * LAKH, 20, 9, start, thirty);
+    assertClose(result.schedule[0].emi, emiFor(30 * LAKH, 9, 240));
+    assert.ok(result.schedule[0].closingPrincipal < 30 * LAKH);
+    assert.equal(result.schedule[0].repaymentType, "emi");
+  });
+
+  it("charges only interest until the EMI start date under pre-EMI", () => {
+    const result = loan(30 * LAKH, 20, 9, start, { ...thirty, repaymentMode: "pre-emi", emiStartDate: new Date(2025, 0, 1) });
+    const preEmi = result.schedule.filter(row => row.repaymentType === "pre-emi");
+    assert.equal(preEmi.length, 12);
+    for (const row of preEmi) {
+      assertClose(row.emi, row.interest);
+      assertClose(row.closingPrincipal, 30 * LAKH);
+    }
+    // The EMI then amortizes the full balance over what is left of the tenure
+    assertClose(firstEmiRow(result).emi, emiFor(30 * LAKH, 9, 228));
+    assert.ok(result.summary.totalInterest > loan(30 * LAKH, 20, 9, start, thirty).summary.totalInterest);
+  });
+});
+
+describe("prepayment strategies", () => {
+  const start = new Date(2024, 0, 1);
+  const prepayment = [{ date: new Date(2025, 0, 10), amount: 5 * LAKH }];
+
+  it("lowers the EMI and keeps the tenure with reduce-EMI", () => {
+    const base = loan(30 * LAKH, 20, 9, start, thirty);
+    const result = loan(30 * LAKH, 20, 9, start, { ...thirty, prepaymentStrategy: "reduce-emi" }, prepayment);
+    const after = result.schedule[13];
+    assert.ok(after.emi < base.schedule[13].emi - 1000);
+    assert.equal(result.schedule.length, base.schedule.length);
+    assert.equal(result.summary.monthsSaved, 0);
+  });
+
+  it("keeps the EMI and closes early with reduce-tenure", () => {
+    const base = loan(30 * LAKH, 20, 9, start, thirty);
+    const result = loan(30 * LAKH, 20, 9, start, { ...thirty, prepaymentStrategy: "reduce-tenure" }, prepayment);
+    assertClose(result.schedule[13].emi, base.schedule[13].emi, 1);
+    assert.ok(result.schedule.length < base.schedule.length - 36);
+    assert.ok(result.summary.monthsSaved > 36);
+    assert.ok(result.summary.totalInterest < loan(30 * LAKH, 20, 9, start, { ...thirty, prepaymentStrategy: "reduce-emi" }, prepayment).summary.totalInterest);
+  });
+
+  it("keeps the full tenure for a reduce-tenure prepayment made before EMIs start", () => {
+    const options: LoanOptions = { ...thirty, repaymentMode: "pre-emi", emiStartDate: new Date(2025, 0, 1) };
+    const early = [{ date: new Date(2024, 8, 10), amount: 5 * LAKH }];
+    const reduceEmi = loan(30 * LAKH, 20, 9, start, { ...options, prepaymentStrategy: "reduce-emi" }, early);
+    const reduceTenure = loan(30 * LAKH, 20, 9, start, { ...options, prepaymentStrategy: "reduce-tenure" }, early);
+    assertClose(firstEmiRow(reduceTenure).emi, firstEmiRow(reduceEmi).emi);
+    assertClose(firstEmiRow(reduceTenure).emi, emiFor(25 * LAKH, 9, 228));
+    assert.equal(reduceTenure.schedule.length, reduceEmi.schedule.length);
+  });
+
+  it("takes a prepayment off the balance from its own date", () => {
+    const result = loan(12 * LAKH, 20, 10, new Date(2024, 0, 1), {}, [{ date: new Date(2024, 0, 11), amount: 2 * LAKH }]);
+    assertClose(result.schedule[0].interest, (12 * LAKH * 0.1 * 10 + 10 * LAKH * 0.1 * 21) / 365);
+  });
+});
+
+describe("EMI step-up", () => {
+  const start = new Date(2024, 0, 1);
+  const emi = emiFor(30 * LAKH, 9, 240);
+
+  it("raises the EMI once a year in the step month, compounding", () => {
+    const { schedule } = loan(30 * LAKH, 20, 9, start, { ...thirty, emiStepUp: { type: "percent", value: 10, month: 4 } });
+    assertClose(schedule[2].emi, emi);
+    assertClose(schedule[3].emi, emi * 1.1);
+    assertClose(schedule[14].emi, emi * 1.1);
+    assertClose(schedule[15].emi, emi * 1.21);
+    assert.ok(schedule.length < 240);
+  });
+
+  it("never raises the EMI above the cap", () => {
+    const cap = Math.round(emi * 1.15);
+    const { schedule } = loan(30 * LAKH, 20, 9, start, { ...thirty, emiStepUp: { type: "percent", value: 10, month: 4, cap } });
+    assertClose(schedule[3].emi, emi * 1.1);
+    assertClose(schedule[15].emi, cap);
+    assertClose(schedule[27].emi, cap);
+  });
+
+  it("does not step up before EMIs start", () => {
+    const options: LoanOptions = {
+      ...thirty,
+      repaymentMode: "pre-emi",
+      emiStartDate: new Date(2025, 0, 1),
+      emiStepUp: { type: "amount", value: 5000, month: 1 },
+    };
+    const { schedule, phases } = loan(30 * LAKH, 20, 9, start, options);
+    for (const row of schedule.filter(r => r.repaymentType === "pre-emi")) assertClose(row.emi, row.interest);
+    // EMIs start in the step month itself, and the first raise comes a year later
+    const first = schedule.findIndex(r => r.repaymentType === "emi");
+    assertClose(schedule[first].emi, emiFor(30 * LAKH, 9, 228));
+    assert.equal(phases.find(p => p.emiStepUp)?.startDate.getTime(), new Date(2026, 0, 1).getTime());
+    assertClose(schedule[first + 11].emi, emiFor(30 * LAKH, 9, 228));
+    assertClose(schedule[first + 12].emi, emiFor(30 * LAKH, 9, 228) + 5000);
+  });
+});
+
+describe("day-count conventions", () => {
+  // February 2024 has 29 days in a 366-day year
+  const start = new Date(2024, 1, 1);
+  const feb = (options: LoanOptions, extras: { date: Date; amount: number }[] = []) =>
+    loan(12 * LAKH, 20, 10, start, options, extras).schedule[0].interest;
+
+  it("divides actual days by 365 under Actual/365", () => {
+    assertClose(feb({ dayCount: "actual-365" }), (12 * LAKH * 0.1 * 29) / 365);
+  });
+
+  it("divides actual days by the days in the year under Actual/Actual", () => {
+    assertClose(feb({ dayCount: "actual-actual" }), (12 * LAKH * 0.1 * 29) / 366);
+  });
+
+  it("counts every month as 30 days of a 360-day year under 30/360", () => {
+    assertClose(feb({ dayCount: "30-360" }), (12 * LAKH * 0.1) / 12);
+  });
+
+  it("charges a whole month on the opening balance under monthly rest", () => {
+    const prepaid = [{ date: new Date(2024, 1, 5), amount: 2 * LAKH }];
+    const result = loan(12 * LAKH, 20, 10, start, { dayCount: "monthly" }, prepaid);
+    assertClose(result.schedule[0].interest, (12 * LAKH * 0.1) / 12);
+    // The prepayment is credited from the next rest
+    assertClose(result.schedule[1].interest, (result.schedule[1].openingPrincipal * 0.1) / 12);
+    assert.ok(feb({ dayCount: "actual-365" }, prepaid) < result.schedule[0].interest);
+  });
+});
+
+describe("interest shortfall policies", () => {
+  // At 18% over 30 years the EMI is just above a 30-day month's interest, so 31-day months fall short
+  const start = new Date(2024, 0, 1);
+  const capitalized = loan(30 * LAKH, 30, 18, start, { shortfallPolicy: "capitalize" });
+  const flagged = loan(30 * LAKH, 30, 18, start, { shortfallPolicy: "flag" });
+
+  it("adds unpaid interest to the principal when capitalizing", () => {
+    const row = capitalized.schedule.find(r => r.interestShortfall)!;
+    assert.ok(row.closingPrincipal > row.openingPrincipal);
+    assertClose(row.closingPrincipal, row.openingPrincipal + row.interestShortfall!);
+    assert.equal(capitalized.summary.interestNotCharged, 0);
+    assert.ok(capitalized.warnings.some(w => w.type === "negative-amortization"));
+  });
+
+  it("leaves the principal alone and the flagged interest out of the totals when flagging", () => {
+    const rows = flagged.schedule.filter(r => r.interestShortfall);
+    assert.ok(rows.length > 0);
+    for (const row of rows) assertClose(row.closingPrincipal, row.openingPrincipal);
+    const shortfall = rows.reduce((sum, r) => sum + r.interestShortfall!, 0);
+    assertClose(flagged.summary.interestNotCharged, shortfall);
+    const accrued = flagged.schedule.reduce((sum, r) => sum + r.interest, 0);
+    assertClose(flagged.summary.totalInterest, accrued - shortfall, 0.1);
+    const paid = flagged.schedule.reduce((sum, r) => sum + r.emi, 0);
+    assertClose(flagged.summary.totalAmountPaid, paid, 1);
+  });
+});
@@ -0,0 +1,548 @@
+import { addMonths, differenceInCalendarMonths, addDays } from "date-fns";
+import { DEFAULT_DAY_COUNT, isDayCountConvention, monthsBetween, yearFraction, type DayCountConvention } from "./day-count";
+import { deriveRateChanges, type Benchmark, type FloatingRate } from "./floating-rate";
+import { expandRecurringPayments, isPaymentFrequency, type RecurringPayment } from "./recurring-payments";
+
+export type { DayCountConvention } from "./day-count";
+export type { FloatingRate } from "./floating-rate";
+export type { RecurringPayment } from "./recurring-payments";
+
+export interface Disbursal {
+  id?: string; // Stable key from the form; generated from the input order when omitted
+  date: Date;
+  amount: number;
+}
+
+export interface InterestRateChange {
+  id?: string;
+  date: Date;
+  rate: number;
+}
+
+// After a prepayment the bank either re-amortizes to a lower EMI, or keeps the EMI and shortens the tenure.
+export type PrepaymentStrategy = 'reduce-emi' | 'reduce-tenure';
+
+export interface ExtraPayment {
+  id?: string;
+  date: Date;
+  amount: number;
+  strategy?: PrepaymentStrategy; // Falls back to LoanOptions.prepaymentStrategy
+}
+
+// 'emi' amortizes from the first disbursal; 'pre-emi' charges interest only until the EMI start date.
+export type RepaymentMode = 'emi' | 'pre-emi';
+
+// When a payment does not cover the month's interest: add the unpaid part to the principal
+// (negative amortization, as banks do), or leave the principal alone and treat it as never charged.
+export type ShortfallPolicy = 'capitalize' | 'flag';
+
+// Raises the EMI once a year, as salaried borrowers do with each increment.
+export interface EmiStepUp {
+  type: 'percent' | 'amount';
+  value: number; // Percent of the previous year's EMI, or rupees added each year
+  month: number; // Calendar month (1-12) the raise takes effect in
+  cap?: number | null; // The stepped EMI never goes above this
+}
+
+export interface LoanOptions {
+  repaymentMode?: RepaymentMode;
+  emiStartDate?: Date | null; // Usually the possession date; required for 'pre-emi'
+  prepaymentStrategy?: PrepaymentStrategy; // Default for extra payments, 'reduce-emi' if omitted
+  dayCount?: DayCountConvention; // Interest accrual and remaining-tenure basis, 'actual-365' if omitted
+  shortfallPolicy?: ShortfallPolicy; // 'capitalize' if omitted
+  floatingRate?: FloatingRate | null; // Replaces interestRateChanges with the rates derived from the benchmark
+  recurringPayments?: RecurringPayment[]; // Expanded into extra payments alongside the one-off ones
+  emiStepUp?: EmiStepUp | null; // Starts from fullEmiAtStart, or the EMI in force when that is zero
+}
+
+// A disbursal, rate change or prepayment that took effect during a schedule month
+export interface ScheduleEvent {
+  id: string;
+  date: Date;
+  type: 'disbursal' | 'rate' | 'extra';
+  amount?: number;
+  rate?: number;
+}
+
+export interface EMIPayment {
+  month: number;
+  date: Date;
+  openingPrincipal: number;
+  emi: number; // Actual payment made
+  theoreticalEmi: number; // The "Current EMI" based on balance/tenure
+  interest: number;
+  principalPaid: number;
+  extraPaid: number;
+  closingPrincipal: number;
+  phase?: number;
+  rate?: number;
+  repaymentType?: RepaymentMode;
+  prepaymentStrategy?: PrepaymentStrategy; // Set on months with an extra payment
+  events?: ScheduleEvent[]; // Set on months with at least one event, in date order
+  interestShortfall?: number; // Interest the payment did not cover; set only when positive. Under 'flag' it is not charged
+}
+
+export interface PhaseInfo {
+  phaseIndex: number;
+  startDate: Date;
+  endDate: Date | null;
+  principalAtStart: number;
+  disbursalAdded: number;
+  remainingTenureMonths: number;
+  emi: number;
+  rate: number;
+  repaymentType: RepaymentMode;
+  prepaymentStrategy?: PrepaymentStrategy; // Set when the phase starts right after a prepayment
+  emiStepUp?: number; // Set when the phase starts with an annual EMI step-up, by how much it rose
+}
+
+export interface CalculationWarning {
+  type: 'negative-amortization';
+  month: number;
+  date: Date;
+  amount: number;
+  message: string;
+}
+
+export interface CalculationResult {
+  schedule: EMIPayment[];
+  phases: PhaseInfo[];
+  warnings: CalculationWarning[];
+  summary: {
+    totalInterest: number; // Interest charged, so flagged shortfalls are left out
+    totalAmountPaid: number;
+    totalDisbursed: number;
+    totalExtraPaid: number;
+    closureDate: Date;
+    monthsSaved: number; // Months between the contracted end date and the actual closure
+    dayCount: DayCountConvention;
+    shortfallPolicy: ShortfallPolicy;
+    interestNotCharged: number; // Flagged shortfalls; always 0 under 'capitalize'
+  };
+}
+
+export function calculateLoan(
+  totalLoanApproved: number,
+  loanTenureYears: number,
+  initialInterestRate: number,
+  startDate: Date,
+  disbursals: Disbursal[],
+  interestRateChanges: InterestRateChange[] = [],
+  extraPayments: ExtraPayment[] = [],
+  fullEmiAtStart: number = 0,
+  options: LoanOptions = {}
+): CalculationResult {
+  const dayCount = options.dayCount ?? DEFAULT_DAY_COUNT;
+  const shortfallPolicy = options.shortfallPolicy ?? 'capitalize';
+  const emiStartDate = options.repaymentMode === 'pre-emi' ? options.emiStartDate ?? null : null;
+  // A month is interest-only when it ends on or before the EMI start date.
+  const isPreEmiMonth = (monthEnd: Date) => !!emiStartDate && monthEnd.getTime() <= emiStartDate.getTime();
+
+  const loanEndDate = addMonths(startDate, loanTenureYears * 12);
+  // A floating-rate loan takes its rate path from the benchmark series instead of hand-entered changes
+  const floating = options.floatingRate
+    ? deriveRateChanges(options.floatingRate, startDate, loanEndDate, initialInterestRate)
+    : null;
+
+  // Events are tracked by id, so several on the same date each apply once
+  const sortedDisbursals = disbursals.map((d, i) => ({ ...d, id: d.id ?? `disbursal-${i}` })).sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  const sortedRateChanges = (floating ? floating.changes : interestRateChanges).map((r, i) => ({ ...r, id: r.id ?? `rate-${i}` })).sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  // Recurring rules come pre-expanded with their own ids
+  const sortedExtraPayments = [
+    ...extraPayments,
+    ...expandRecurringPayments(options.recurringPayments ?? [], loanEndDate),
+  ].map((p, i) => ({ ...p, id: p.id ?? `extra-${i}` })).sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  // Moves earlier when a prepayment keeps the EMI and shortens the tenure instead
+  let effectiveEndDate = loanEndDate;
+  let lastPrepaymentStrategy: PrepaymentStrategy | undefined;
+  
+  let currentDate = new Date(startDate);
+  let currentPrincipal = 0;
+  let currentPhaseIndex = 0;
+  let currentInterestRate = floating ? floating.initialRate : initialInterestRate;
+  
+  const schedule: EMIPayment[] = [];
+  const phases: PhaseInfo[] = [];
+  const warnings: CalculationWarning[] = [];
+
+  let totalInterest = 0;
+  let interestNotCharged = 0;
+  let totalDisbursed = 0;
+  let totalExtraPaid = 0;
+  
+  const maxMonths = 1200; 
+  let currentMinEmi = 0;
+  // The EMI the borrower has committed to; grows on each step-up and is paid whenever it beats the minimum
+  let targetEmi = fullEmiAtStart;
+  const stepUp = options.emiStepUp && options.emiStepUp.value > 0 ? options.emiStepUp : null;
+  
+  const processedDisbursals = new Set<string>();
+  const processedRateChanges = new Set<string>();
+  const processedExtraPayments = new Set<string>();
+
+  for (let month = 1; month <= maxMonths; month++) {
+    const monthStartDate = currentDate;
+    const monthEndDate = addMonths(monthStartDate, 1);
+    const preEmi = isPreEmiMonth(monthEndDate);
+    const emiStarts = !!emiStartDate && !preEmi && schedule.length > 0 && schedule[schedule.length - 1].repaymentType === 'pre-emi';
+    
+    // Check for rate changes
+    const monthRateChanges = sortedRateChanges.filter(r => 
+      r.date.getTime() >= monthStartDate.getTime() && 
+      r.date.getTime() < monthEndDate.getTime() &&
+      !processedRateChanges.has(r.id)
+    );
+
+    // Interest before the first change this month still accrues at the old rate
+    const openingRate = currentInterestRate;
+    let rateChanged = false;
+    if (monthRateChanges.length > 0) {
+      const lastChange = monthRateChanges[monthRateChanges.length - 1];
+      currentInterestRate = lastChange.rate;
+      monthRateChanges.forEach(r => processedRateChanges.add(r.id));
+      rateChanged = true;
+    }
+
+    // Check for disbursals
+    const monthDisbursals = sortedDisbursals.filter(d => 
+      d.date.getTime() >= monthStartDate.getTime() && 
+      d.date.getTime() < monthEndDate.getTime() &&
+      !processedDisbursals.has(d.id)
+    );
+
+    let principalChanged = false;
+    let newDisbursalAmount = 0;
+
+    if (monthDisbursals.length > 0) {
+      monthDisbursals.forEach(d => {
+        // Day-wise interest calculation for the month of disbursal
+        // We'll calculate interest on the existing principal until the disbursal date,
+        // then on the new principal for the rest of the month.
+        // For simplicity in the monthly loop, we'll track the principal change here.
+        currentPrincipal += d.amount;
+        totalDisbursed += d.amount;
+        newDisbursalAmount += d.amount;
+        processedDisbursals.add(d.id);
+      });
+      principalChanged = true;
+    }
+
+    const prepaymentStrategy = lastPrepaymentStrategy;
+    lastPrepaymentStrategy = undefined;
+
+    // Each year's raise lands in the step month, once EMIs have been running for at least a month
+    let steppedBy = 0;
+    const emiRunning = schedule.length > 0 && schedule[schedule.length - 1].repaymentType === 'emi';
+    if (stepUp && !preEmi && emiRunning && monthStartDate.getMonth() + 1 === stepUp.month) {
+      const from = Math.max(currentMinEmi, targetEmi);
+      const raised = stepUp.type === 'percent' ? from * (1 + stepUp.value / 100) : from + stepUp.value;
+      const next = stepUp.cap ? Math.max(from, Math.min(stepUp.cap, raised)) : raised;
+      steppedBy = next - from;
+      targetEmi = next;
+    }
+    const emiStepped = steppedBy > 0.01;
+
+    // Recalculate minimum EMI if principal changed OR rate changed, and mark the switch from pre-EMI to EMI,
+    // the first month after a prepayment or an EMI step-up
+    if (principalChanged || rateChanged || emiStarts || prepaymentStrategy || emiStepped) {
+       const monthsRemaining = Math.max(1, monthsBetween(monthStartDate, effectiveEndDate, dayCount));
+       const monthlyRate = currentInterestRate / 12 / 100;
+       
+       if (currentPrincipal > 0 && monthsRemaining > 0) {
+         if (monthlyRate === 0) {
+           currentMinEmi = currentPrincipal / monthsRemaining;
+         } else {
+           const n = monthsRemaining;
+           const r = monthlyRate;
+           const numerator = currentPrincipal * r * Math.pow(1 + r, n);
+           const denominator = Math.pow(1 + r, n) - 1;
+           currentMinEmi = numerator / denominator;
+         }
+       } else {
+         currentMinEmi = 0;
+       }
+
+       phases.push({
+         phaseIndex: currentPhaseIndex++,
+         startDate: monthStartDate,
+         endDate: null,
+         principalAtStart: currentPrincipal,
+         disbursalAdded: newDisbursalAmount,
+         remainingTenureMonths: monthsRemaining,
+         emi: preEmi ? 0 : Math.max(currentMinEmi, targetEmi),
+         rate: currentInterestRate,
+         repaymentType: preEmi ? 'pre-emi' : 'emi',
+         prepaymentStrategy,
+         emiStepUp: emiStepped ? steppedBy : undefined
+       });
+       
+       if (phases.length > 1) {
+         phases[phases.length - 2].endDate = monthStartDate;
+       }
+    }
+
+    // Stop if loan is closed
+    if (currentPrincipal <= 0.01 && totalDisbursed > 0 && sortedDisbursals.every(d => processedDisbursals.has(d.id))) {
+      break;
+    }
+
+    // Check for explicit extra payments this month
+    const monthExtraPayments = sortedExtraPayments.filter(p => 
+      p.date.getTime() >= monthStartDate.getTime() && 
+      p.date.getTime() < monthEndDate.getTime() &&
+      !processedExtraPayments.has(p.id)
+    );
+
+    // DAY-WISE INTEREST CALCULATION
+    // Every segment accrues under the same day-count convention, so quiet months and event months agree
+    let interest = 0;
+    const period = { start: monthStartDate, end: monthEndDate };
+
+    // Daily reducing balance: disbursals add to and prepayments come off the balance from their own date.
+    // Under monthly rest a prepayment is only credited at the next rest, so it leaves this month's interest alone
+    const events = [
+      ...monthDisbursals.map(d => ({ id: d.id, date: d.date, type: 'disbursal' as const, amount: d.amount })),
+      ...monthRateChanges.map(r => ({ id: r.id, date: r.date, type: 'rate' as const, rate: r.rate })),
+      ...monthExtraPayments.map(p => ({ id: p.id, date: p.date, type: 'extra' as const, amount: p.amount }))
+    ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    let tempPrincipal = schedule.length > 0 ? schedule[schedule.length - 1].closingPrincipal : 0;
+    // Actually the principal was already updated above for the month.
+    // Let's backtrack to calculate precise interest.
+    tempPrincipal = schedule.length > 0 ? schedule[schedule.length - 1].closingPrincipal : 0;
+    let lastDate = monthStartDate;
+    let segmentRate = openingRate;
+
+    if (events.length > 0) {
+      for (const event of events) {
+        interest += tempPrincipal * (segmentRate / 100) * yearFraction(lastDate, event.date, dayCount, period);
+        
+        if (event.type === 'disbursal') tempPrincipal += event.amount;
+        if (event.type === 'extra' && dayCount !== 'monthly') tempPrincipal = Math.max(0, tempPrincipal - event.amount);
+        // The new rate applies from its effective date up to the next event
+        if (event.type === 'rate') segmentRate = event.rate;
+        lastDate = event.date;
+      }
+      interest += tempPrincipal * (segmentRate / 100) * yearFraction(lastDate, monthEndDate, dayCount, period);
+    } else {
+      interest = currentPrincipal * (currentInterestRate / 100) * yearFraction(monthStartDate, monthEndDate, dayCount, period);
+    }
+    
+    // Pre-EMI months pay only the interest, so principal does not reduce
+    let emiToPay = preEmi ? interest : Math.max(currentMinEmi, targetEmi);
+    let principalPaid = emiToPay - interest;
+    
+    let manualExtraAmount = 0;
+    let monthStrategy: PrepaymentStrategy | undefined;
+    monthExtraPayments.forEach(p => {
+      manualExtraAmount += p.amount;
+      // When several prepayments share a month, the last one's choice applies
+      monthStrategy = p.strategy ?? options.prepaymentStrategy ?? 'reduce-emi';
+      processedExtraPayments.add(p.id);
+    });
+
+    if (principalPaid < 0) principalPaid = 0;
+    
+    let totalPrincipalReduction = principalPaid + manualExtraAmount;
+    
+    if (totalPrincipalReduction > currentPrincipal) {
+      totalPrincipalReduction = currentPrincipal;
+      if (manualExtraAmount > currentPrincipal) {
+        manualExtraAmount = currentPrincipal;
+        principalPaid = 0;
+      } else {
+        principalPaid = currentPrincipal - manualExtraAmount;
+      }
+      emiToPay = principalPaid + interest;
+    }
+
+    // After the close-out adjustment above the payment always covers interest, so this only catches an EMI below it
+    const interestShortfall = Math.max(0, interest - emiToPay);
+    const capitalized = shortfallPolicy === 'capitalize' ? interestShortfall : 0;
+    const closingPrincipal = currentPrincipal - totalPrincipalReduction + capitalized;
+    if (interestShortfall > 0.01) {
+      warnings.push({
+        type: 'negative-amortization',
+        month,
+        date: monthStartDate,
+        amount: interestShortfall,
+        message: capitalized
+          ? 'Payment did not cover the interest; the shortfall was added to the principal'
+          : 'Payment did not cover the interest; the shortfall was not charged',
+      });
+    }
+
+    schedule.push({
+      month,
+      date: monthStartDate,
+      openingPrincipal: currentPrincipal,
+      theoreticalEmi: currentMinEmi,
+      emi: emiToPay,
+      interest,
+      principalPaid,
+      extraPaid: manualExtraAmount + (!preEmi && emiToPay > currentMinEmi ? (emiToPay - Math.max(currentMinEmi, interest)) : 0),
+      closingPrincipal,
+      phase: currentPhaseIndex,
+      rate: currentInterestRate,
+      repaymentType: preEmi ? 'pre-emi' : 'emi',
+      prepaymentStrategy: monthStrategy,
+      events: events.length > 0 ? events : undefined,
+      interestShortfall: interestShortfall > 0.01 ? interestShortfall : undefined
+    });
+
+    // Keep the EMI in force and solve for the shorter tenure it now implies. Before EMIs start there is no
+    // EMI to keep, so a prepayment only reduces the principal and the full tenure still applies
+    if (monthStrategy === 'reduce-tenure' && !preEmi && closingPrincipal > 0.01 && currentMinEmi > 0) {
+      const r = currentInterestRate / 12 / 100;
+      const n = r === 0
+        ? closingPrincipal / currentMinEmi
+        : -Math.log(1 - (closingPrincipal * r) / currentMinEmi) / Math.log(1 + r);
+      if (isFinite(n)) {
+        const shortenedEnd = addDays(addMonths(monthEndDate, Math.floor(n)), Math.ceil((n % 1) * 30));
+        if (shortenedEnd.getTime() < effectiveEndDate.getTime()) effectiveEndDate = shortenedEnd;
+      }
+    }
+    if (monthStrategy && !preEmi && closingPrincipal > 0.01) lastPrepaymentStrategy = monthStrategy;
+
+    currentPrincipal = closingPrincipal;
+    totalInterest += interest - (interestShortfall - capitalized);
+    interestNotCharged += interestShortfall - capitalized;
+    totalExtraPaid += schedule[schedule.length - 1].extraPaid;
+    currentDate = monthEndDate;
+
+    // Recalculate theoretical minimum EMI for next month
+    const monthsRemaining = Math.max(0, monthsBetween(monthEndDate, effectiveEndDate, dayCount));
+    const r = currentInterestRate / 12 / 100;
+    
+    if (currentPrincipal > 0 && monthsRemaining > 0) {
+      if (r === 0) {
+        currentMinEmi = currentPrincipal / monthsRemaining;
+      } else {
+        const n = monthsRemaining;
+        const numerator = currentPrincipal * r * Math.pow(1 + r, n);
+        const denominator = Math.pow(1 + r, n) - 1;
+        currentMinEmi = numerator / denominator;
+      }
+    } else if (currentPrincipal > 0) {
+      currentMinEmi = currentPrincipal;
+    } else {
+      currentMinEmi = 0;
+    }
+  }
+
+  if (phases.length > 0) {
+    phases[phases.length - 1].endDate = currentDate;
+  }
+
+  return {
+    schedule,
+    phases,
+    warnings,
+    summary: {
+      totalInterest,
+      totalAmountPaid: totalDisbursed + totalInterest,
+      totalDisbursed,
+      totalExtraPaid,
+      closureDate: currentDate,
+      monthsSaved: Math.max(0, differenceInCalendarMonths(loanEndDate, currentDate)),
+      dayCount,
+      shortfallPolicy,
+      interestNotCharged
+    }
+  };
+}
+
+// Plan inputs as stored on a `calculations` row or posted to the API: numeric columns
+// may be strings and dates may be ISO strings.
+export interface PlanInputs {
+  totalLoanAmount: string | number;
+  loanTenureYears: string | number;
+  interestRate: string | number;
+  startDate: Date | string;
+  disbursals: { id?: string; date: string; amount: number }[];
+  interestRateChanges?: { id?: string; date: string; rate: number }[];
+  extraPayments?: { id?: string; date: string; amount: number; strategy?: PrepaymentStrategy }[];
+  fullEmiAtStart?: string | number | null;
+  repaymentMode?: string | null;
+  prepaymentStrategy?: string | null;
+  emiStartDate?: Date | string | null;
+  dayCount?: string | null;
+  shortfallPolicy?: string | null;
+  floatingRate?: {
+    benchmark: string;
+    spread: number;
+    resetMonths: number;
+    benchmarkRates: { id?: string; date: string; rate: number }[];
+  } | null;
+  emiStepUp?: {
+    type: string;
+    value: number;
+    month: number;
+    cap?: number | null;
+  } | null;
+  recurringPayments?: {
+    id?: string;
+    frequency: string;
+    startDate: string;
+    endDate?: string | null;
+    amount: number;
+    stepUpPercent?: number;
+    strategy?: PrepaymentStrategy;
+  }[];
+}
+
+export function calculatePlan(plan: PlanInputs): CalculationResult {
+  return calculateLoan(
+    Number(plan.totalLoanAmount),
+    Number(plan.loanTenureYears),
+    Number(plan.interestRate),
+    new Date(plan.startDate),
+    plan.disbursals.map(d => ({ id: d.id, date: new Date(d.date), amount: d.amount })),
+    (plan.interestRateChanges || []).map(r => ({ id: r.id, date: new Date(r.date), rate: r.rate })),
+    (plan.extraPayments || []).map(p => ({ id: p.id, date: new Date(p.date), amount: p.amount, strategy: p.strategy })),
+    Number(plan.fullEmiAtStart || 0),
+    {
+      repaymentMode: plan.repaymentMode === 'pre-emi' ? 'pre-emi' : 'emi',
+      emiStartDate: plan.emiStartDate ? new Date(plan.emiStartDate) : null,
+      prepaymentStrategy: plan.prepaymentStrategy === 'reduce-tenure' ? 'reduce-tenure' : 'reduce-emi',
+      dayCount: isDayCountConvention(plan.dayCount) ? plan.dayCount : DEFAULT_DAY_COUNT,
+      shortfallPolicy: plan.shortfallPolicy === 'flag' ? 'flag' : 'capitalize',
+      floatingRate: plan.floatingRate
+        ? {
+            ...plan.floatingRate,
+            benchmark: plan.floatingRate.benchmark as Benchmark,
+            benchmarkRates: plan.floatingRate.benchmarkRates.map(r => ({ date: new Date(r.date), rate: r.rate })),
+          }
+        : null,
+      emiStepUp: plan.emiStepUp
+        ? { ...plan.emiStepUp, type: plan.emiStepUp.type === 'amount' ? 'amount' : 'percent' }
+        : null,
+      recurringPayments: (plan.recurringPayments || []).map(p => ({
+        ...p,
+        frequency: isPaymentFrequency(p.frequency) ? p.frequency : 'monthly',
+        startDate: new Date(p.startDate),
+        endDate: p.endDate ? new Date(p.endDate) : null,
+      })),
+    }
+  );
+}
+
+// Shape of a result after JSON serialization, where every Date becomes an ISO string.
+type Serialized<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+export type SerializedCalculationResult = Serialized<CalculationResult>;
@@ -0,0 +1,74 @@
+import { differenceInDays, getDaysInYear, startOfYear, addYears } from "date-fns";
+
+// How a stretch of days converts to a fraction of a year for interest accrual.
+// - actual-365: actual days / 365, also in leap years (Indian bank default)
+// - actual-actual: actual days / days in that calendar year, split at year boundaries
+// - 30-360: every month counts as 30 days and the year as 360
+// - monthly: monthly rest, interest on the balance at each rest for the whole period (rate/12); prepayments
+//   only count from the next rest, while disbursals and rate changes within a period apply pro-rata
+export type DayCountConvention = 'actual-365' | 'actual-actual' | '30-360' | 'monthly';
+
+export const DAY_COUNT_LABELS: Record<DayCountConvention, string> = {
+  'actual-365': 'Actual/365 (fixed)',
+  'actual-actual': 'Actual/Actual',
+  '30-360': '30/360',
+  'monthly': 'Monthly rest',
+};
+
+export const DEFAULT_DAY_COUNT: DayCountConvention = 'actual-365';
+
+export const isDayCountConvention = (value: unknown): value is DayCountConvention =>
+  typeof value === 'string' && value in DAY_COUNT_LABELS;
+
+// 30/360 day count (US/NASD rule)
+export function days360(from: Date, to: Date): number {
+  let d1 = from.getDate();
+  let d2 = to.getDate();
+  if (d1 === 31) d1 = 30;
+  if (d2 === 31 && d1 === 30) d2 = 30;
+  return (to.getFullYear() - from.getFullYear()) * 360 + (to.getMonth() - from.getMonth()) * 30 + (d2 - d1);
+}
+
+function actualActual(from: Date, to: Date): number {
+  let fraction = 0;
+  let cursor = from;
+  while (cursor.getTime() < to.getTime()) {
+    const nextYear = startOfYear(addYears(cursor, 1));
+    const segmentEnd = nextYear.getTime() < to.getTime() ? nextYear : to;
+    fraction += differenceInDays(segmentEnd, cursor) / getDaysInYear(cursor);
+    cursor = segmentEnd;
+  }
+  return fraction;
+}
+
+/**
+ * Fraction of a year between two dates. For monthly rest, `period` is the repayment
+ * period the segment falls in, so a whole period is exactly 1/12.
+ */
+export function yearFraction(
+  from: Date,
+  to: Date,
+  convention: DayCountConvention,
+  period?: { start: Date; end: Date }
+): number {
+  if (to.getTime() <= from.getTime()) return 0;
+  switch (convention) {
+    case 'actual-actual':
+      return actualActual(from, to);
+    case '30-360':
+      return days360(from, to) / 360;
+    case 'monthly': {
+      if (!period) return days360(from, to) / 360;
+      const periodDays = differenceInDays(period.end, period.start) || 1;
+      return differenceInDays(to, from) / periodDays / 12;
+    }
+    case 'actual-365':
+    default:
+      return differenceInDays(to, from) / 365;
+  }
+}
+
+// Remaining monthly periods between two dates under the same convention used for interest.
+export function monthsBetween(from: Date, to: Date, convention: DayCountConvention): number {
+  return yearFraction(from, to, convention === 'monthly' ? '30-360' : convention) * 12;
+}
@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { deriveRateChanges, type FloatingRate } from "./floating-rate";
+
+const start = new Date(2024, 0, 1);
+const end = new Date(2044, 0, 1);
+
+// Repo-linked at 2.5% over the benchmark, reset every quarter from the start date
+const repoLinked = (benchmarkRates: FloatingRate["benchmarkRates"]): FloatingRate => ({
+  benchmark: "repo",
+  spread: 2.5,
+  resetMonths: 3,
+  benchmarkRates,
+});
+
+describe("deriveRateChanges", () => {
+  it("starts at the benchmark in force on the start date plus the spread", () => {
+    const { initialRate, changes } = deriveRateChanges(repoLinked([{ date: new Date(2023, 5, 1), rate: 6.5 }]), start, end, 8);
+    assert.equal(initialRate, 9);
+    assert.deepEqual(changes, []);
+  });
+
+  it("applies a benchmark change only from the next reset date", () => {
+    const { changes } = deriveRateChanges(repoLinked([
+      { date: new Date(2023, 5, 1), rate: 6.5 },
+      { date: new Date(2024, 1, 10), rate: 6.25 },
+    ]), start, end, 8);
+    assert.equal(changes.length, 1);
+    assert.equal(changes[0].date.getTime(), new Date(2024, 3, 1).getTime());
+    assert.equal(changes[0].rate, 8.75);
+  });
+
+  it("skips a benchmark move that is reversed before the reset", () => {
+    const { changes } = deriveRateChanges(repoLinked([
+      { date: new Date(2023, 5, 1), rate: 6.5 },
+      { date: new Date(2024, 1, 10), rate: 6.25 },
+      { date: new Date(2024, 2, 20), rate: 6.5 },
+    ]), start, end, 8);
+    assert.deepEqual(changes, []);
+  });
+
+  it("keeps the fallback rate until a benchmark value is in force", () => {
+    const { initialRate, changes } = deriveRateChanges(repoLinked([{ date: new Date(2024, 4, 15), rate: 6 }]), start, end, 8.4);
+    assert.equal(initialRate, 8.4);
+    assert.equal(changes[0].date.getTime(), new Date(2024, 6, 1).getTime());
+    assert.equal(changes[0].rate, 8.5);
+  });
+});
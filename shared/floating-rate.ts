@@ -0,0 +1,66 @@
+import { addMonths } from "date-fns";
+import type { InterestRateChange } from "./calculator";
+
+// External benchmark the loan is priced against; the bank adds a fixed spread on top.
+export type Benchmark = 'repo' | 'mclr' | 'other';
+
+export const BENCHMARK_LABELS: Record<Benchmark, string> = {
+  repo: 'Repo rate (EBLR)',
+  mclr: 'MCLR',
+  other: 'Other benchmark',
+};
+
+export const RESET_FREQUENCIES = [1, 3, 6, 12] as const;
+
+export interface FloatingRate {
+  benchmark: Benchmark;
+  spread: number; // Percentage points over the benchmark, may be negative
+  resetMonths: number; // The loan rate only moves on reset dates, this many months apart from the start date
+  benchmarkRates: { date: Date; rate: number }[]; // Benchmark values, each in force from its date
+}
+
+export interface DerivedRates {
+  initialRate: number;
+  changes: InterestRateChange[];
+}
+
+const benchmarkOn = (rates: FloatingRate['benchmarkRates'], date: Date) => {
+  let value: number | undefined;
+  for (const r of rates) {
+    if (r.date.getTime() <= date.getTime()) value = r.rate;
+  }
+  return value;
+};
+
+/**
+ * Turns a benchmark series into the loan's own rate changes. On each reset date the rate becomes
+ * the benchmark then in force plus the spread; benchmark moves between resets wait for the next one.
+ * Before the first benchmark value `fallbackRate` applies.
+ */
+export function deriveRateChanges(
+  floating: FloatingRate,
+  startDate: Date,
+  endDate: Date,
+  fallbackRate: number
+): DerivedRates {
+  const rates = [...floating.benchmarkRates].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const atStart = benchmarkOn(rates, startDate);
+  const initialRate = atStart == null ? fallbackRate : atStart + floating.spread;
+  const changes: InterestRateChange[] = [];
+  const step = Math.max(1, Math.round(floating.resetMonths));
+
+  let current = initialRate;
+  for (let i = 1; ; i++) {
+    const resetDate = addMonths(startDate, i * step);
+    if (resetDate.getTime() >= endDate.getTime()) break;
+    const benchmark = benchmarkOn(rates, resetDate);
+    if (benchmark == null) continue;
+    const rate = Math.round((benchmark + floating.spread) * 10000) / 10000;
+    if (rate !== current) {
+      changes.push({ id: `reset-${i}`, date: resetDate, rate });
+      current = rate;
+    }
+  }
+
+  return { initialRate, changes };
+}
@@ -0,0 +1,68 @@
+import { format } from "date-fns";
+import type { EMIPayment } from "./calculator";
+import type { ActualPayment } from "./schema";
+
+export type ReconciledField = "interest" | "emi" | "closingPrincipal";
+
+export interface FieldVariance {
+  projected: number;
+  actual: number | null;
+  variance: number | null; // actual - projected
+  flagged: boolean;
+}
+
+export interface ReconciledRow {
+  month: string; // yyyy-MM
+  payment: EMIPayment;
+  interest: FieldVariance;
+  emi: FieldVariance;
+  closingPrincipal: FieldVariance;
+  flagged: boolean;
+}
+
+export interface ReconciliationResult {
+  rows: ReconciledRow[];
+  flaggedMonths: number;
+  recordedMonths: number;
+  totalInterestVariance: number;
+}
+
+export const monthKey = (date: Date) => format(date, "yyyy-MM");
+
+function compare(projected: number, actual: number | null | undefined, tolerance: number): FieldVariance {
+  if (actual == null) {
+    return { projected, actual: null, variance: null, flagged: false };
+  }
+  const variance = actual - projected;
+  return { projected, actual, variance, flagged: Math.abs(variance) > tolerance };
+}
+
+// Lines the bank's monthly figures up against the projected schedule. A month is flagged
+// when any recorded figure drifts from the projection by more than `tolerance` rupees.
+export function reconcileSchedule(
+  schedule: EMIPayment[],
+  actuals: ActualPayment[],
+  tolerance: number
+): ReconciliationResult {
+  const byMonth = new Map(actuals.map(a => [a.month, a]));
+  let flaggedMonths = 0;
+  let recordedMonths = 0;
+  let totalInterestVariance = 0;
+
+  const rows = schedule.map(payment => {
+    const month = monthKey(payment.date);
+    const actual = byMonth.get(month);
+    const interest = compare(payment.interest, actual?.interest, tolerance);
+    const emi = compare(payment.emi, actual?.emi, tolerance);
+    const closingPrincipal = compare(payment.closingPrincipal, actual?.closingPrincipal, tolerance);
+    const flagged = interest.flagged || emi.flagged || closingPrincipal.flagged;
+
+    if (actual) recordedMonths++;
+    if (flagged) flaggedMonths++;
+    totalInterestVariance += interest.variance ?? 0;
+
+    return { month, payment, interest, emi, closingPrincipal, flagged };
+  });
+
+  return { rows, flaggedMonths, recordedMonths, totalInterestVariance };
+}
@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { expandRecurringPayments, type RecurringPayment } from "./recurring-payments";
+
+const loanEnd = new Date(2044, 0, 1);
+
+const rule = (overrides: Partial<RecurringPayment> = {}): RecurringPayment => ({
+  frequency: "yearly",
+  startDate: new Date(2024, 3, 10),
+  amount: 100000,
+  ...overrides,
+});
+
+const dates = (rules: RecurringPayment[], end = loanEnd) =>
+  expandRecurringPayments(rules, end).map(p => p.date.getTime());
+
+describe("expandRecurringPayments", () => {
+  it("repeats on the rule's frequency from the start date", () => {
+    const quarterly = dates([rule({ frequency: "quarterly", endDate: new Date(2025, 0, 10) })]);
+    assert.deepEqual(quarterly, [new Date(2024, 3, 10), new Date(2024, 6, 10), new Date(2024, 9, 10), new Date(2025, 0, 10)].map(d => d.getTime()));
+    assert.equal(dates([rule({ frequency: "monthly", endDate: new Date(2024, 11, 31) })]).length, 9);
+    assert.equal(dates([rule({ frequency: "half-yearly", endDate: new Date(2025, 11, 31) })]).length, 4);
+  });
+
+  it("stops at the end date, or before the tenure ends when there is none", () => {
+    assert.equal(dates([rule({ endDate: new Date(2026, 3, 9) })]).length, 2);
+    const open = dates([rule()]);
+    assert.equal(open.length, 20);
+    assert.ok(open[open.length - 1] < loanEnd.getTime());
+    // An end date past the tenure is cut off at the tenure
+    assert.deepEqual(dates([rule({ endDate: new Date(2050, 0, 1) })]), open);
+  });
+
+  it("steps the amount up once a year, compounding", () => {
+    const payments = expandRecurringPayments([rule({ frequency: "half-yearly", stepUpPercent: 10, endDate: new Date(2026, 11, 31) })], loanEnd);
+    assert.deepEqual(payments.map(p => p.amount), [100000, 100000, 110000, 110000, 121000, 121000]);
+  });
+
+  it("skips a rule when a date is invalid instead of looping forever", () => {
+    assert.deepEqual(expandRecurringPayments([rule({ startDate: new Date(NaN) })], loanEnd), []);
+    assert.deepEqual(expandRecurringPayments([rule()], new Date(NaN)), []);
+  });
+});
@@ -0,0 +1,60 @@
+import { addMonths } from "date-fns";
+import type { ExtraPayment, PrepaymentStrategy } from "./calculator";
+
+export type PaymentFrequency = 'monthly' | 'quarterly' | 'half-yearly' | 'yearly';
+
+export const FREQUENCY_MONTHS: Record<PaymentFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  'half-yearly': 6,
+  yearly: 12,
+};
+
+export const FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
+  monthly: 'Every month',
+  quarterly: 'Every quarter',
+  'half-yearly': 'Every 6 months',
+  yearly: 'Every year',
+};
+
+export const isPaymentFrequency = (value: unknown): value is PaymentFrequency =>
+  typeof value === 'string' && value in FREQUENCY_MONTHS;
+
+// A prepayment made on a fixed cycle, e.g. ₹25,000 every quarter or an annual bonus each April.
+export interface RecurringPayment {
+  id?: string;
+  frequency: PaymentFrequency;
+  startDate: Date; // First payment; later ones fall on the same day of the month
+  endDate?: Date | null; // Last payment on or before this date; runs to the end of the tenure when null
+  amount: number; // First year's amount
+  stepUpPercent?: number; // Growth applied once a year from the start date, compounding
+  strategy?: PrepaymentStrategy;
+}
+
+/**
+ * Expands rules into the dated extra payments the engine applies. Payments on or after `loanEndDate`
+ * are dropped, as are those after the loan has closed (the engine simply never reaches them).
+ * Stepped-up amounts are rounded to the rupee.
+ */
+export function expandRecurringPayments(rules: RecurringPayment[], loanEndDate: Date): ExtraPayment[] {
+  const payments: ExtraPayment[] = [];
+  rules.forEach((rule, r) => {
+    const step = FREQUENCY_MONTHS[rule.frequency] ?? 1;
+    const until = rule.endDate && rule.endDate.getTime() < loanEndDate.getTime() ? rule.endDate.getTime() : loanEndDate.getTime() - 1;
+    // An invalid date would never compare past `until`, so the loop below would not end
+    if (isNaN(rule.startDate.getTime()) || isNaN(until)) return;
+    const growth = 1 + (rule.stepUpPercent ?? 0) / 100;
+    for (let n = 0; ; n++) {
+      const date = addMonths(rule.startDate, n * step);
+      if (date.getTime() > until) break;
+      const year = Math.floor((n * step) / 12);
+      payments.push({
+        id: `recurring-${rule.id ?? r}-${n}`,
+        date,
+        amount: year === 0 ? rule.amount : Math.round(rule.amount * Math.pow(growth, year)),
+        strategy: rule.strategy,
+      });
+    }
+  });
+  return payments;
+}
@@ -1,10 +1,12 @@
 import { z } from 'zod';
-import { insertCalculationSchema, calculations } from './schema';
+import { insertCalculationSchema, updateCalculationSchema, calculations, calculationVersions } from './schema';
+import type { SerializedCalculationResult } from './calculator';
 
 export const errorSchemas = {
   validation: z.object({
     message: z.string(),
     field: z.string().optional(),
+    errors: z.array(z.object({ field: z.string(), message: z.string() })).optional(), // Every rule the plan breaks
   }),
   notFound: z.object({
     message: z.string(),
@@ -40,6 +42,34 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/calculations/:id',
+      input: updateCalculationSchema,
+      responses: {
+        200: z.custom<typeof calculations.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    patch: {
+      method: 'PATCH' as const,
+      path: '/api/calculations/:id',
+      input: insertCalculationSchema.partial(),
+      responses: {
+        200: z.custom<typeof calculations.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    schedule: {
+      method: 'GET' as const,
+      path: '/api/calculations/:id/schedule',
+      responses: {
+        200: z.custom<SerializedCalculationResult>(),
+        404: errorSchemas.notFound,
+      },
+    },
     delete: {
       method: 'DELETE' as const,
       path: '/api/calculations/:id',
@@ -49,6 +79,43 @@ export const api = {
       },
     },
   },
+  calculate: {
+    method: 'POST' as const,
+    path: '/api/calculate',
+    // Same inputs as a saved plan, but nothing is stored so a name is optional.
+    input: insertCalculationSchema.partial({ name: true }),
+    responses: {
+      200: z.custom<SerializedCalculationResult>(),
+      400: errorSchemas.validation,
+    },
+  },
+  versions: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/calculations/:id/versions',
+      responses: {
+        200: z.array(z.custom<typeof calculationVersions.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/calculations/:id/versions/:version',
+      responses: {
+        200: z.custom<typeof calculationVersions.$inferSelect>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    restore: {
+      method: 'POST' as const,
+      path: '/api/calculations/:id/versions/:version/restore',
+      responses: {
+        200: z.custom<typeof calculations.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
 };
 
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
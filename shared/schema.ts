@@ -1,8 +1,37 @@
-import { pgTable, text, serial, numeric, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, numeric, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type {
+  DayCountConvention,
+  EmiStepUp,
+  FloatingRate,
+  PrepaymentStrategy,
+  RecurringPayment,
+  RepaymentMode,
+  ShortfallPolicy,
+} from "./calculator";
+
+// A month's figures from the bank statement; any of them may be missing.
+export interface ActualPayment {
+  month: string; // yyyy-MM
+  interest?: number | null;
+  emi?: number | null;
+  closingPrincipal?: number | null;
+}
+
+// The engine's floating-rate input as stored in jsonb, with benchmark dates as ISO strings.
+export type FloatingRateConfig = Omit<FloatingRate, "benchmarkRates"> & {
+  benchmarkRates: { id?: string; date: string; rate: number }[];
+};
+
+// A recurring prepayment rule as stored in jsonb, with its dates as ISO strings.
+export type RecurringPaymentRule = Omit<RecurringPayment, "startDate" | "endDate"> & {
+  startDate: string;
+  endDate?: string | null;
+};
 
 // We define a schema for saving calculations, though the app is primarily client-side.
+// Event ids are the form's keys; they are saved so a plan's events keep them across loads and in the engine.
 export const calculations = pgTable("calculations", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(), // User friendly name for the saved calculation
@@ -10,17 +39,98 @@ export const calculations = pgTable("calculations", {
   loanTenureYears: numeric("loan_tenure_years").notNull(),
   interestRate: numeric("interest_rate").notNull(),
   startDate: timestamp("start_date").notNull(),
-  disbursals: jsonb("disbursals").$type<{ date: string; amount: number }[]>().notNull(),
-  interestRateChanges: jsonb("interest_rate_changes").$type<{ date: string; rate: number }[]>().notNull().default([]),
-  extraPayments: jsonb("extra_payments").$type<{ date: string; amount: number }[]>().notNull().default([]),
+  disbursals: jsonb("disbursals").$type<{ id?: string; date: string; amount: number }[]>().notNull(),
+  interestRateChanges: jsonb("interest_rate_changes").$type<{ id?: string; date: string; rate: number }[]>().notNull().default([]),
+  extraPayments: jsonb("extra_payments").$type<{ id?: string; date: string; amount: number; strategy?: PrepaymentStrategy }[]>().notNull().default([]),
+  recurringPayments: jsonb("recurring_payments").$type<RecurringPaymentRule[]>().notNull().default([]),
   fullEmiAtStart: numeric("full_emi_at_start").default("0"),
+  emiStepUp: jsonb("emi_step_up").$type<EmiStepUp>(), // Null when the EMI is not raised each year
+  repaymentMode: text("repayment_mode").$type<RepaymentMode>().notNull().default("emi"),
+  emiStartDate: timestamp("emi_start_date"), // Possession date for pre-EMI plans
+  prepaymentStrategy: text("prepayment_strategy").$type<PrepaymentStrategy>().notNull().default("reduce-emi"),
+  dayCount: text("day_count").$type<DayCountConvention>().notNull().default("actual-365"), // How interest accrues per day
+  shortfallPolicy: text("shortfall_policy").$type<ShortfallPolicy>().notNull().default("capitalize"), // Interest an EMI does not cover
+  floatingRate: jsonb("floating_rate").$type<FloatingRateConfig>(), // Null when rates are entered as interestRateChanges
+  actuals: jsonb("actuals").$type<ActualPayment[]>().notNull().default([]), // What the bank actually charged, per month
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertCalculationSchema = createInsertSchema(calculations).omit({ 
+// Immutable copy of a plan's inputs, taken every time the plan is created or updated.
+export const calculationVersions = pgTable("calculation_versions", {
+  id: serial("id").primaryKey(),
+  calculationId: integer("calculation_id").notNull().references(() => calculations.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  snapshot: jsonb("snapshot").$type<CalculationSnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.calculationId, table.version)]);
+
+// jsonb columns carry no runtime shape, and dates arrive as ISO strings over JSON.
+// A calendar date or full ISO timestamp, e.g. "2024-03-05" or "2024-03-05T00:00:00.000Z".
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const isoDate = z
+  .string()
+  .refine(value => ISO_DATE.test(value) && !isNaN(Date.parse(value)), "Must be an ISO date (yyyy-MM-dd)");
+
+const actualsSchema = z.array(z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be yyyy-MM"),
+  interest: z.number().nullish(),
+  emi: z.number().nullish(),
+  closingPrincipal: z.number().nullish(),
+}));
+
+export const insertCalculationSchema = createInsertSchema(calculations, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  startDate: z.coerce.date(),
+  repaymentMode: z.enum(["emi", "pre-emi"]).default("emi"),
+  emiStartDate: z.coerce.date().nullish(),
+  disbursals: z.array(z.object({ id: z.string().optional(), date: isoDate, amount: z.number().positive() })).min(1, "At least one disbursal is required"),
+  interestRateChanges: z.array(z.object({ id: z.string().optional(), date: isoDate, rate: z.number().nonnegative() })).default([]),
+  extraPayments: z.array(z.object({
+    id: z.string().optional(),
+    date: isoDate,
+    amount: z.number().positive(),
+    strategy: z.enum(["reduce-emi", "reduce-tenure"]).optional(),
+  })).default([]),
+  recurringPayments: z.array(z.object({
+    id: z.string().optional(),
+    frequency: z.enum(["monthly", "quarterly", "half-yearly", "yearly"]),
+    startDate: isoDate,
+    endDate: isoDate.nullish(),
+    amount: z.number().positive(),
+    stepUpPercent: z.number().nonnegative().optional(),
+    strategy: z.enum(["reduce-emi", "reduce-tenure"]).optional(),
+  })).default([]),
+  emiStepUp: z.object({
+    type: z.enum(["percent", "amount"]),
+    value: z.number().nonnegative(),
+    month: z.number().int().min(1).max(12),
+    cap: z.number().positive().nullish(),
+  }).nullish(),
+  prepaymentStrategy: z.enum(["reduce-emi", "reduce-tenure"]).default("reduce-emi"),
+  dayCount: z.enum(["actual-365", "actual-actual", "30-360", "monthly"]).default("actual-365"),
+  shortfallPolicy: z.enum(["capitalize", "flag"]).default("capitalize"),
+  floatingRate: z.object({
+    benchmark: z.enum(["repo", "mclr", "other"]),
+    spread: z.number(),
+    resetMonths: z.number().int().positive(),
+    benchmarkRates: z.array(z.object({ id: z.string().optional(), date: isoDate, rate: z.number().nonnegative() })),
+  }).nullish(),
+  actuals: actualsSchema.default([]),
+}).omit({ 
   id: true, 
   createdAt: true 
 });
 
+// A PUT replaces the plan's inputs; actuals left out of the body keep their stored value rather than being cleared.
+export const updateCalculationSchema = insertCalculationSchema.extend({ actuals: actualsSchema.optional() });
+
 export type Calculation = typeof calculations.$inferSelect;
 export type InsertCalculation = z.infer<typeof insertCalculationSchema>;
+export type UpdateCalculation = z.infer<typeof updateCalculationSchema>;
+
+// Actuals are statement data rather than inputs, so they stay out of versions and survive a restore.
+export type CalculationSnapshot = Omit<Calculation, "id" | "createdAt" | "startDate" | "emiStartDate" | "actuals"> & {
+  startDate: string;
+  emiStartDate: string | null;
+};
+export type CalculationVersion = typeof calculationVersions.$inferSelect;
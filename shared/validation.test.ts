@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PlanInputs } from "./calculator";
+import { validatePlan } from "./validation";
+
+// A 20-year plan from January 2024, fully disbursed on day one
+const plan = (overrides: Partial<PlanInputs> = {}): PlanInputs => ({
+  totalLoanAmount: "3000000",
+  loanTenureYears: "20",
+  interestRate: "8.5",
+  startDate: "2024-01-01T00:00:00.000Z",
+  disbursals: [{ date: "2024-01-01T00:00:00.000Z", amount: 3000000 }],
+  ...overrides,
+});
+
+const fields = (issues: { field: string }[]) => issues.map(i => i.field);
+
+describe("validatePlan", () => {
+  it("passes a plain plan", () => {
+    assert.deepEqual(validatePlan(plan()), { errors: [], warnings: [] });
+  });
+
+  it("accepts a 0% rate", () => {
+    assert.deepEqual(validatePlan(plan({ interestRate: "0" })).errors, []);
+  });
+
+  it("reports a missing value as an error on its field", () => {
+    const { errors } = validatePlan(plan({ loanTenureYears: "abc", disbursals: [] }));
+    assert.deepEqual(fields(errors).sort(), ["disbursals", "loanTenureYears"]);
+    assert.equal(errors.find(e => e.field === "loanTenureYears")?.message, "Tenure must be a number");
+  });
+
+  it("blocks saving when disbursals exceed the sanctioned amount", () => {
+    const { errors } = validatePlan(plan({ disbursals: [{ date: "2024-01-01T00:00:00.000Z", amount: 3500000 }] }));
+    assert.deepEqual(fields(errors), ["disbursals"]);
+    assert.equal(errors[0].severity, "error");
+  });
+
+  it("only warns about a rate that is high but allowed", () => {
+    const { errors, warnings } = validatePlan(plan({ interestRate: "20" }));
+    assert.deepEqual(errors, []);
+    assert.deepEqual(fields(warnings), ["interestRate"]);
+    assert.equal(warnings[0].severity, "warning");
+    assert.deepEqual(fields(validatePlan(plan({ interestRate: "31" })).errors), ["interestRate"]);
+  });
+
+  it("rejects events before the start date", () => {
+    const { errors } = validatePlan(plan({
+      disbursals: [{ date: "2023-12-31T00:00:00.000Z", amount: 3000000 }],
+      interestRateChanges: [{ date: "2023-12-01T00:00:00.000Z", rate: 9 }],
+      extraPayments: [{ date: "2023-06-01T00:00:00.000Z", amount: 100000 }],
+    }));
+    assert.deepEqual(fields(errors), ["disbursals.0.date", "interestRateChanges.0.date", "extraPayments.0.date"]);
+  });
+
+  it("rejects a disbursal after the tenure but only warns about a rate change or prepayment there", () => {
+    const afterTenure = "2044-01-01T00:00:00.000Z";
+    const { errors, warnings } = validatePlan(plan({
+      disbursals: [
+        { date: "2024-01-01T00:00:00.000Z", amount: 2000000 },
+        { date: afterTenure, amount: 1000000 },
+      ],
+      interestRateChanges: [{ date: afterTenure, rate: 9 }],
+      extraPayments: [{ date: afterTenure, amount: 100000 }],
+    }));
+    assert.deepEqual(fields(errors), ["disbursals.1.date"]);
+    assert.deepEqual(fields(warnings), ["interestRateChanges.0.date", "extraPayments.0.date"]);
+  });
+
+  it("requires an EMI start date within the tenure for pre-EMI plans", () => {
+    assert.deepEqual(fields(validatePlan(plan({ repaymentMode: "pre-emi" })).errors), ["emiStartDate"]);
+    assert.deepEqual(fields(validatePlan(plan({ repaymentMode: "pre-emi", emiStartDate: "2045-01-01T00:00:00.000Z" })).errors), ["emiStartDate"]);
+    assert.deepEqual(validatePlan(plan({ repaymentMode: "pre-emi", emiStartDate: "2025-01-01T00:00:00.000Z" })).errors, []);
+  });
+});
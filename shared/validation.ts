@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { addMonths } from "date-fns";
+import type { PlanInputs } from "./calculator";
+
+// Business rules for a plan's inputs, on top of the column shapes in `insertCalculationSchema`.
+// Shared so the form can flag problems while typing and the API can refuse to save them.
+
+export type IssueSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  field: string; // Dotted path, e.g. "disbursals.2.amount"; messages on top-level fields read on their own
+  message: string;
+  severity: IssueSeverity;
+}
+
+export interface PlanValidation {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export const MAX_TENURE_YEARS = 40;
+export const MAX_INTEREST_RATE = 30;
+// Anything above this is possible but more likely a typo (e.g. 85 instead of 8.5)
+const HIGH_INTEREST_RATE = 18;
+
+const rupees = (amount: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(amount);
+
+const rate = z.coerce
+  .number({ invalid_type_error: "Rate must be a number" })
+  .min(0, "Rate cannot be negative")
+  .max(MAX_INTEREST_RATE, `Rate must be at most ${MAX_INTEREST_RATE}%`);
+
+const planRulesSchema = z
+  .object({
+    totalLoanAmount: z.coerce.number({ invalid_type_error: "Approved loan must be a number" }).positive("Approved loan must be more than zero"),
+    loanTenureYears: z.coerce
+      .number({ invalid_type_error: "Tenure must be a number" })
+      .positive("Tenure must be more than zero")
+      .max(MAX_TENURE_YEARS, `Tenure must be at most ${MAX_TENURE_YEARS} years`),
+    interestRate: rate,
+    startDate: z.coerce.date({ invalid_type_error: "Start date is not a valid date" }),
+    disbursals: z
+      .array(z.object({ date: z.coerce.date(), amount: z.number().positive("Amount must be more than zero") }))
+      .min(1, "At least one disbursal is required"),
+    interestRateChanges: z.array(z.object({ date: z.coerce.date(), rate })).default([]),
+    extraPayments: z
+      .array(z.object({ date: z.coerce.date(), amount: z.number().positive("Amount must be more than zero") }))
+      .default([]),
+    recurringPayments: z
+      .array(
+        z.object({
+          startDate: z.coerce.date(),
+          endDate: z.coerce.date().nullish(),
+          amount: z.number().positive("Amount must be more than zero"),
+          stepUpPercent: z.number().min(0, "Step-up cannot be negative").max(50, "Step-up must be at most 50% a year").optional(),
+        })
+      )
+      .default([]),
+    fullEmiAtStart: z.coerce.number().nullish(),
+    emiStepUp: z
+      .object({
+        type: z.string(),
+        value: z.number({ invalid_type_error: "Step-up must be a number" }).positive("Step-up must be more than zero"),
+        month: z.number().int().min(1, "Step month must be 1 to 12").max(12, "Step month must be 1 to 12"),
+        cap: z.number().positive("Cap must be more than zero").nullish(),
+      })
+      .nullish(),
+    floatingRate: z
+      .object({
+        spread: z.coerce.number().min(-5, "Spread must be at least -5%").max(15, "Spread must be at most 15%"),
+        resetMonths: z.coerce.number().int().min(1, "Reset frequency must be at least a month").max(12, "Reset frequency must be at most 12 months"),
+        benchmarkRates: z.array(z.object({ date: z.coerce.date(), rate })),
+      })
+      .nullish(),
+    repaymentMode: z.string().nullish(),
+    emiStartDate: z.coerce.date().nullish(),
+  })
+  .superRefine((plan, ctx) => {
+    const loanEndDate = addMonths(plan.startDate, plan.loanTenureYears * 12);
+    const issue = (path: (string | number)[], message: string, severity: IssueSeverity = "error") =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message, params: { severity } });
+
+    const totalDisbursed = plan.disbursals.reduce((sum, d) => sum + d.amount, 0);
+    if (totalDisbursed > plan.totalLoanAmount) {
+      issue(["disbursals"], `Disbursals exceed the sanctioned amount by ${rupees(totalDisbursed - plan.totalLoanAmount)}`);
+    }
+
+    plan.disbursals.forEach((d, i) => {
+      if (d.date < plan.startDate) issue(["disbursals", i, "date"], "Falls before the loan start date");
+      else if (d.date >= loanEndDate) issue(["disbursals", i, "date"], "Falls after the loan tenure ends");
+    });
+
+    if (plan.interestRate > HIGH_INTEREST_RATE && plan.interestRate <= MAX_INTEREST_RATE) {
+      issue(["interestRate"], `${plan.interestRate}% is unusually high for a home loan`, "warning");
+    }
+    plan.interestRateChanges.forEach((r, i) => {
+      if (r.date < plan.startDate) issue(["interestRateChanges", i, "date"], "Falls before the loan start date");
+      else if (r.date >= loanEndDate) issue(["interestRateChanges", i, "date"], "Falls after the loan tenure ends and will be ignored", "warning");
+      if (r.rate > HIGH_INTEREST_RATE && r.rate <= MAX_INTEREST_RATE) issue(["interestRateChanges", i, "rate"], `${r.rate}% is unusually high for a home loan`, "warning");
+    });
+
+    if (plan.floatingRate && !plan.floatingRate.benchmarkRates.some(r => r.date <= plan.startDate)) {
+      issue(["floatingRate"], "No benchmark rate on or before the start date; the initial rate applies until one is in force", "warning");
+    }
+
+    plan.extraPayments.forEach((p, i) => {
+      if (p.date < plan.startDate) issue(["extraPayments", i, "date"], "Falls before the loan start date");
+      else if (p.date >= loanEndDate) issue(["extraPayments", i, "date"], "Falls after the loan tenure ends and will be ignored", "warning");
+    });
+
+    plan.recurringPayments.forEach((p, i) => {
+      if (p.startDate < plan.startDate) issue(["recurringPayments", i, "startDate"], "Falls before the loan start date");
+      else if (p.startDate >= loanEndDate) issue(["recurringPayments", i, "startDate"], "Falls after the loan tenure ends and will be ignored", "warning");
+      if (p.endDate && p.endDate < p.startDate) issue(["recurringPayments", i, "endDate"], "Falls before the first payment");
+    });
+
+    if (plan.emiStepUp) {
+      if (plan.emiStepUp.type === "percent" && plan.emiStepUp.value > 25) {
+        issue(["emiStepUp", "value"], `A ${plan.emiStepUp.value}% raise every year is unusually steep`, "warning");
+      }
+      if (plan.emiStepUp.cap && plan.fullEmiAtStart && plan.emiStepUp.cap <= plan.fullEmiAtStart) {
+        issue(["emiStepUp", "cap"], "Cap is not above the full EMI, so the EMI never steps up", "warning");
+      }
+    }
+
+    if (plan.repaymentMode === "pre-emi") {
+      if (!plan.emiStartDate) issue(["emiStartDate"], "Pre-EMI plans need an EMI start date");
+      else if (plan.emiStartDate < plan.startDate) issue(["emiStartDate"], "EMI start date falls before the loan start date");
+      else if (plan.emiStartDate >= loanEndDate) issue(["emiStartDate"], "EMI start date falls after the loan tenure ends");
+    }
+  });
+
+// Checks a plan and splits what blocks saving from what is merely suspicious.
+export function validatePlan(plan: PlanInputs): PlanValidation {
+  const result = planRulesSchema.safeParse(plan);
+  const issues: ValidationIssue[] = result.success
+    ? []
+    : result.error.issues.map(issue => ({
+        field: issue.path.join("."),
+        message: issue.message,
+        severity: issue.code === z.ZodIssueCode.custom && issue.params?.severity === "warning" ? "warning" : "error",
+      }));
+  return {
+    errors: issues.filter(i => i.severity === "error"),
+    warnings: issues.filter(i => i.severity === "warning"),
+  };
+}